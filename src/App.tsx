@@ -4,9 +4,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/lib/auth-context";
+import { PresenceProvider } from "@/lib/presence-context";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Chat from "./pages/Chat";
+import GroupChat from "./pages/GroupChat";
 import Invite from "./pages/Invite";
 import NotFound from "./pages/NotFound";
 
@@ -18,15 +20,18 @@ const App = () => (
       <Toaster />
       <Sonner />
       <AuthProvider>
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/chat/:friendId" element={<Chat />} />
-            <Route path="/invite/:token" element={<Invite />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <PresenceProvider>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/chat/:friendId" element={<Chat />} />
+              <Route path="/group/:groupId" element={<GroupChat />} />
+              <Route path="/invite/:token" element={<Invite />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </PresenceProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Attachment, downloadAttachment, formatFileSize } from '@/lib/attachments';
+import { Download, FileText, ImageOff } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface AttachmentViewProps {
+  attachment: Attachment;
+  isMine: boolean;
+}
+
+// Decrypted image preview, or a card that decrypts and saves the file on click
+export default function AttachmentView({ attachment, isMine }: AttachmentViewProps) {
+  const isImage = attachment.mime.startsWith('image/');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    if (!isImage) return;
+    let url: string | null = null;
+    let cancelled = false;
+    downloadAttachment(attachment)
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreviewUrl(url);
+      })
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, isImage]);
+
+  const save = async () => {
+    setDownloading(true);
+    try {
+      const blob = await downloadAttachment(attachment);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = attachment.name;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error('Could not decrypt attachment');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const muted = isMine ? 'text-primary-foreground/60' : 'text-muted-foreground';
+
+  if (isImage && !failed) {
+    return previewUrl ? (
+      <button type="button" onClick={save} className="block">
+        <img src={previewUrl} alt={attachment.name} className="max-h-72 rounded-lg object-contain" />
+      </button>
+    ) : (
+      <div className="flex h-40 w-56 items-center justify-center rounded-lg bg-black/10">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={save}
+      disabled={downloading}
+      className="flex w-56 items-center gap-3 rounded-lg bg-black/10 p-2.5 text-left"
+    >
+      <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-md bg-black/10">
+        {failed ? <ImageOff className="h-4 w-4" /> : <FileText className="h-4 w-4" />}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">{attachment.name}</p>
+        <p className={`text-[10px] ${muted}`}>{formatFileSize(attachment.size)}</p>
+      </div>
+      {downloading ? (
+        <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+      ) : (
+        <Download className="h-4 w-4 shrink-0" />
+      )}
+    </button>
+  );
+}
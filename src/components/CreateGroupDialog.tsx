@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/lib/auth-context';
+import { createGroup, fetchFriends } from '@/lib/groups';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Users } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface CreateGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CreateGroupDialog({ open, onOpenChange }: CreateGroupDialogProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [friends, setFriends] = useState<{ user_id: string; username: string }[]>([]);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    setName('');
+    setSelected(new Set());
+    fetchFriends(user.id).then(setFriends).catch(() => toast.error('Could not load friends'));
+  }, [open, user]);
+
+  const toggle = (userId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(userId);
+      else next.delete(userId);
+      return next;
+    });
+  };
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || selected.size === 0) return;
+
+    setCreating(true);
+    try {
+      const groupId = await createGroup(name.trim(), [...selected]);
+      onOpenChange(false);
+      navigate(`/group/${groupId}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not create group');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>New group</DialogTitle>
+          <DialogDescription>
+            Messages are encrypted separately for every member's devices. You can add more friends later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={create} className="space-y-4">
+          <Input
+            placeholder="Group name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            maxLength={64}
+            className="bg-secondary border-border"
+          />
+          {friends.length === 0 ? (
+            <p className="text-center text-xs text-muted-foreground">Add some friends first to start a group.</p>
+          ) : (
+            <div className="max-h-60 space-y-1 overflow-y-auto">
+              {friends.map(f => (
+                <Label
+                  key={f.user_id}
+                  className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-2 font-normal hover:bg-secondary/50"
+                >
+                  <Checkbox checked={selected.has(f.user_id)} onCheckedChange={checked => toggle(f.user_id, checked === true)} />
+                  @{f.username}
+                </Label>
+              ))}
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={creating || !name.trim() || selected.size === 0}>
+            <Users className="mr-2 h-4 w-4" />
+            Create group
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button';
+
+interface DeleteMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canDeleteForEveryone: boolean;
+  contactUsername?: string;
+  onDelete: (scope: 'me' | 'everyone') => void;
+}
+
+export default function DeleteMessageDialog({ open, onOpenChange, canDeleteForEveryone, contactUsername, onDelete }: DeleteMessageDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete message?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {canDeleteForEveryone
+              ? `Delete it only on this device, or for ${contactUsername ? `you and @${contactUsername}` : 'everyone in the group'}.`
+              : 'The message will be removed from this device only.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={canDeleteForEveryone ? buttonVariants({ variant: 'secondary' }) : buttonVariants({ variant: 'destructive' })}
+            onClick={() => onDelete('me')}
+          >
+            Delete for me
+          </AlertDialogAction>
+          {canDeleteForEveryone && (
+            <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={() => onDelete('everyone')}>
+              Delete for everyone
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
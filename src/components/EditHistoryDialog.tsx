@@ -0,0 +1,36 @@
+import type { DecryptedMessage } from '@/lib/messages';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface EditHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  original: DecryptedMessage | null;
+  edits: DecryptedMessage[];
+}
+
+// Every revision of a message, newest first
+export default function EditHistoryDialog({ open, onOpenChange, original, edits }: EditHistoryDialogProps) {
+  const revisions = original ? [original, ...edits].reverse() : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Every version of this message, each end-to-end encrypted.</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {revisions.map((revision, i) => (
+            <div key={revision.id} className="rounded-lg bg-secondary p-3">
+              <p className="text-sm text-foreground break-words">{revision.envelope.body}</p>
+              <p className="mt-1 text-[10px] text-muted-foreground">
+                {i === revisions.length - 1 ? 'Original' : i === 0 ? 'Current' : 'Edited'} ·{' '}
+                {new Date(revision.created_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+              </p>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,27 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth-context';
+import { usePresence } from '@/lib/presence';
+import { ensureIdentity } from '@/lib/x3dh';
+import { retrievePrivateKey } from '@/lib/crypto';
+import { ConversationSummary, fetchConversations, previewText, formatConversationTime } from '@/lib/conversations';
+import { Group, fetchMyGroups } from '@/lib/groups';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Shield, Search, UserPlus, Link2, LogOut, Check, X, MessageCircle, LockKeyhole, User, Copy } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Shield, Search, UserPlus, Link2, LogOut, Check, X, MessageCircle, LockKeyhole, User, Copy, MoreVertical, CloudUpload, Users, ScanLine } from 'lucide-react';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import KeyBackupDialog from '@/components/KeyBackupDialog';
+import CreateGroupDialog from '@/components/CreateGroupDialog';
+import InvitesDialog from '@/components/InvitesDialog';
+import QrScannerDialog from '@/components/QrScannerDialog';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
 
@@ -17,6 +33,7 @@ interface Profile {
 
 interface FriendRequest {
   id: string;
+  created_at: string;
   sender_id: string;
   receiver_id: string;
   status: string;
@@ -25,7 +42,8 @@ interface FriendRequest {
 }
 
 export default function FriendList() {
-  const { user, signOut } = useAuth();
+  const { user, vaultKey, signOut } = useAuth();
+  const { showPresence, setShowPresence, isOnline } = usePresence();
   const navigate = useNavigate();
   const [friends, setFriends] = useState<FriendRequest[]>([]);
   const [pendingRequests, setPendingRequests] = useState<FriendRequest[]>([]);
@@ -33,13 +51,56 @@ export default function FriendList() {
   const [searchResults, setSearchResults] = useState<Profile[]>([]);
   const [showSearch, setShowSearch] = useState(false);
   const [myProfile, setMyProfile] = useState<Profile | null>(null);
+  const [showKeyBackup, setShowKeyBackup] = useState(false);
+  const [showCreateGroup, setShowCreateGroup] = useState(false);
+  const [showInvites, setShowInvites] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [conversations, setConversations] = useState<Map<string, ConversationSummary>>(new Map());
+  const privateKeyRef = useRef<Promise<CryptoKey | null> | null>(null);
 
   useEffect(() => {
     if (!user) return;
     loadProfile();
     loadFriends();
+    fetchMyGroups(user.id).then(setGroups).catch(err => console.error('Failed to load groups', err));
+    // Publish prekeys so friends can start ratchet sessions with us
+    ensureIdentity(user.id).catch(err => console.error('Key setup failed:', err));
   }, [user]);
 
+  // Conversation summaries, refreshed whenever one of our messages changes
+  useEffect(() => {
+    if (!user || !vaultKey) return;
+    // Legacy RSA key, for previews of messages sent before ratchet sessions
+    privateKeyRef.current = retrievePrivateKey(user.id, vaultKey).catch(() => null);
+    loadConversations();
+
+    let timer: ReturnType<typeof setTimeout>;
+    const refresh = () => {
+      clearTimeout(timer);
+      timer = setTimeout(loadConversations, 300);
+    };
+    const channel = supabase
+      .channel(`conversations:${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, (payload) => {
+        const msg = payload.new as { sender_id: string; receiver_id: string | null };
+        if (msg.sender_id === user.id || msg.receiver_id === user.id) refresh();
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages' }, (payload) => {
+        const msg = payload.new as { sender_id: string; receiver_id: string | null };
+        if (msg.sender_id === user.id || msg.receiver_id === user.id) refresh();
+      })
+      // Under RLS a DELETE carries only the id, so any deletion (an expired
+      // message, an edit revision) refreshes the summaries
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages' }, refresh)
+      .subscribe();
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [user, vaultKey]);
+
   const loadProfile = async () => {
     const { data } = await supabase
       .from('profiles')
@@ -78,6 +139,14 @@ export default function FriendList() {
     setPendingRequests(enriched.filter(r => r.status === 'pending'));
   };
 
+  const loadConversations = async () => {
+    try {
+      setConversations(await fetchConversations(user!.id, await privateKeyRef.current));
+    } catch (err) {
+      console.error('Failed to load conversations', err);
+    }
+  };
+
   const searchUsers = async () => {
     if (!searchQuery.trim() || searchQuery.length < 2) return;
     const { data } = await supabase
@@ -109,18 +178,26 @@ export default function FriendList() {
     loadFriends();
   };
 
-  const createInviteLink = async () => {
-    const { data, error } = await supabase.from('invite_tokens').insert({ created_by: user!.id }).select().single();
-    if (error || !data) { toast.error('Could not create link'); return; }
-    const link = `${window.location.origin}/invite/${data.token}`;
-    await navigator.clipboard.writeText(link);
-    toast.success('Invite link copied!');
+  const togglePresence = async (show: boolean) => {
+    try {
+      await setShowPresence(show);
+      toast.success(show ? 'Your online status is visible to friends' : 'Your online status is hidden');
+    } catch {
+      toast.error('Could not update setting');
+    }
   };
 
   const getFriendProfile = (fr: FriendRequest) => {
     return fr.sender_id === user!.id ? fr.receiver_profile : fr.sender_profile;
   };
 
+  // Most recent activity first; friends without messages by when they were added
+  const lastActivity = (fr: FriendRequest) => {
+    const friendId = fr.sender_id === user!.id ? fr.receiver_id : fr.sender_id;
+    return conversations.get(friendId)?.lastMessage.created_at ?? fr.created_at;
+  };
+  const sortedFriends = [...friends].sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)));
+
   return (
     <div className="flex min-h-screen flex-col bg-background">
       {/* Header */}
@@ -143,9 +220,33 @@ export default function FriendList() {
             <Button variant="ghost" size="icon" onClick={() => setShowSearch(!showSearch)}>
               <Search className="h-5 w-5" />
             </Button>
-            <Button variant="ghost" size="icon" onClick={createInviteLink}>
+            <Button variant="ghost" size="icon" onClick={() => setShowInvites(true)}>
               <Link2 className="h-5 w-5" />
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon">
+                  <MoreVertical className="h-5 w-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => setShowCreateGroup(true)}>
+                  <Users className="mr-2 h-4 w-4" />
+                  New group
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setShowScanner(true)}>
+                  <ScanLine className="mr-2 h-4 w-4" />
+                  Scan invite QR
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setShowKeyBackup(true)}>
+                  <CloudUpload className="mr-2 h-4 w-4" />
+                  Key backup
+                </DropdownMenuItem>
+                <DropdownMenuCheckboxItem checked={showPresence} onCheckedChange={togglePresence}>
+                  Show online status
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button variant="ghost" size="icon" onClick={signOut}>
               <LogOut className="h-5 w-5" />
             </Button>
@@ -232,6 +333,25 @@ export default function FriendList() {
         </div>
       )}
 
+      {/* Groups */}
+      {groups.length > 0 && (
+        <div className="border-b border-border px-4 py-2">
+          <p className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">Groups</p>
+          {groups.map(group => (
+            <button
+              key={group.id}
+              onClick={() => navigate(`/group/${group.id}`)}
+              className="flex w-full items-center gap-4 rounded-xl px-2 py-2 text-left transition-all hover:bg-secondary/50 active:bg-secondary"
+            >
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10 text-primary">
+                <Users className="h-4 w-4" />
+              </div>
+              <p className="flex-1 truncate text-sm font-semibold text-foreground">{group.name}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Friends / Chat list */}
       <div className="flex-1 px-4 py-2">
         {friends.length === 0 ? (
@@ -242,9 +362,11 @@ export default function FriendList() {
           </div>
         ) : (
           <div className="space-y-1">
-            {friends.map(fr => {
+            {sortedFriends.map(fr => {
               const friend = getFriendProfile(fr);
               if (!friend) return null;
+              const conversation = conversations.get(friend.user_id);
+              const unread = conversation?.unreadCount ?? 0;
               return (
                 <motion.button
                   key={fr.id}
@@ -257,19 +379,36 @@ export default function FriendList() {
                     <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/10 text-lg font-bold text-primary ring-2 ring-background">
                       {friend.username[0]?.toUpperCase()}
                     </div>
-                    <div className="absolute bottom-0 right-0 h-3.5 w-3.5 rounded-full border-2 border-background bg-green-500"></div>
+                    {isOnline(friend.user_id) && (
+                      <div className="absolute bottom-0 right-0 h-3.5 w-3.5 rounded-full border-2 border-background bg-green-500"></div>
+                    )}
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between mb-0.5">
                       <p className="text-sm font-semibold text-foreground truncate">@{friend.username}</p>
-                      <span className="text-[10px] text-muted-foreground whitespace-nowrap">12:34 PM</span>
+                      {conversation && (
+                        <span className={`text-[10px] whitespace-nowrap ${unread > 0 ? 'font-semibold text-primary' : 'text-muted-foreground'}`}>
+                          {formatConversationTime(conversation.lastMessage.created_at)}
+                        </span>
+                      )}
                     </div>
-                    <div className="flex items-center justify-between">
-                      <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
-                        <LockKeyhole className="h-3 w-3 encryption-badge shrink-0" />
-                        End-to-end encrypted
-                      </p>
-                      <div className="h-2 w-2 rounded-full bg-primary shrink-0"></div>
+                    <div className="flex items-center justify-between gap-2">
+                      {conversation ? (
+                        <p className={`text-xs truncate ${unread > 0 ? 'text-foreground' : 'text-muted-foreground'}`}>
+                          {conversation.lastMessage.sender_id === user!.id && 'You: '}
+                          {previewText(conversation.lastMessage)}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+                          <LockKeyhole className="h-3 w-3 encryption-badge shrink-0" />
+                          End-to-end encrypted
+                        </p>
+                      )}
+                      {unread > 0 && (
+                        <span className="flex h-5 min-w-5 shrink-0 items-center justify-center rounded-full bg-primary px-1.5 text-[10px] font-semibold text-primary-foreground">
+                          {unread > 99 ? '99+' : unread}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </motion.button>
@@ -279,6 +418,11 @@ export default function FriendList() {
         )}
       </div>
 
+      <KeyBackupDialog open={showKeyBackup} onOpenChange={setShowKeyBackup} />
+      <CreateGroupDialog open={showCreateGroup} onOpenChange={setShowCreateGroup} />
+      <InvitesDialog open={showInvites} onOpenChange={setShowInvites} />
+      <QrScannerDialog open={showScanner} onOpenChange={setShowScanner} />
+
       {/* Encryption footer */}
       <div className="border-t border-border px-4 py-3 text-center">
         <p className="text-xs text-muted-foreground flex items-center justify-center gap-1">
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { GroupMember, addGroupMember, fetchFriends, removeGroupMember, setGroupMemberRole } from '@/lib/groups';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LogOut, MoreVertical, Shield, ShieldOff, UserMinus, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface GroupMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groupId: string;
+  groupName?: string;
+  members: GroupMember[];
+  onChanged: () => void;
+  onLeft: () => void;
+  onVerify: (member: GroupMember) => void;
+}
+
+export default function GroupMembersDialog({
+  open,
+  onOpenChange,
+  groupId,
+  groupName,
+  members,
+  onChanged,
+  onLeft,
+  onVerify,
+}: GroupMembersDialogProps) {
+  const { user } = useAuth();
+  const [friends, setFriends] = useState<{ user_id: string; username: string }[]>([]);
+  const [toAdd, setToAdd] = useState('');
+  const [busy, setBusy] = useState(false);
+  const isAdmin = members.some(m => m.user_id === user?.id && m.role === 'admin');
+  const candidates = friends.filter(f => !members.some(m => m.user_id === f.user_id));
+
+  useEffect(() => {
+    if (!open || !user || !isAdmin) return;
+    setToAdd('');
+    fetchFriends(user.id).then(setFriends).catch(() => {});
+  }, [open, user, isAdmin]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      onChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not update the group');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addMember = () => {
+    const friend = candidates.find(f => f.user_id === toAdd);
+    if (!friend) return;
+    run(() => addGroupMember(groupId, friend.user_id), `@${friend.username} added`).then(() => setToAdd(''));
+  };
+
+  const leave = async () => {
+    setBusy(true);
+    try {
+      await removeGroupMember(groupId, user!.id);
+      onLeft();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not leave the group');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{groupName}</DialogTitle>
+          <DialogDescription>
+            {members.length} {members.length === 1 ? 'member' : 'members'}. Everyone listed can read new messages.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-72 space-y-1 overflow-y-auto">
+          {members.map(member => {
+            const isMe = member.user_id === user?.id;
+            return (
+              <div key={member.user_id} className="flex items-center gap-3 rounded-lg px-2 py-2">
+                <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10 text-sm font-semibold text-primary">
+                  {member.username[0]?.toUpperCase()}
+                </div>
+                <span className="flex-1 truncate text-sm text-foreground">
+                  @{member.username}{isMe && ' (you)'}
+                </span>
+                {member.role === 'admin' && <Badge variant="secondary">Admin</Badge>}
+                {!isMe && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" disabled={busy}>
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => onVerify(member)}>
+                        <Shield className="mr-2 h-4 w-4" />
+                        Verify safety number
+                      </DropdownMenuItem>
+                      {isAdmin && (member.role === 'admin' ? (
+                        <DropdownMenuItem
+                          onSelect={() => run(() => setGroupMemberRole(groupId, member.user_id, 'member'), `@${member.username} is no longer an admin`)}
+                        >
+                          <ShieldOff className="mr-2 h-4 w-4" />
+                          Remove admin
+                        </DropdownMenuItem>
+                      ) : (
+                        <DropdownMenuItem
+                          onSelect={() => run(() => setGroupMemberRole(groupId, member.user_id, 'admin'), `@${member.username} is now an admin`)}
+                        >
+                          <Shield className="mr-2 h-4 w-4" />
+                          Make admin
+                        </DropdownMenuItem>
+                      ))}
+                      {isAdmin && (
+                        <DropdownMenuItem
+                          onSelect={() => run(() => removeGroupMember(groupId, member.user_id), `@${member.username} removed`)}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <UserMinus className="mr-2 h-4 w-4" />
+                          Remove from group
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {isAdmin && candidates.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={toAdd} onValueChange={setToAdd}>
+              <SelectTrigger className="flex-1 bg-secondary border-border">
+                <SelectValue placeholder="Add a friend" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(f => (
+                  <SelectItem key={f.user_id} value={f.user_id}>@{f.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="icon" onClick={addMember} disabled={busy || !toAdd}>
+              <UserPlus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <Button variant="outline" onClick={leave} disabled={busy} className="w-full text-destructive">
+          <LogOut className="mr-2 h-4 w-4" />
+          Leave group
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
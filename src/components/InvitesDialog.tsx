@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { QRCodeSVG } from 'qrcode.react';
+import { useAuth } from '@/lib/auth-context';
+import { currentFingerprint } from '@/lib/safety-number';
+import { Invite, InviteStatus, createInvite, fetchMyInvites, inviteLink, inviteStatus, revokeInvite } from '@/lib/invites';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Copy, Link2, QrCode, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const HOUR = 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', ms: HOUR },
+  { label: '1 day', ms: 24 * HOUR },
+  { label: '7 days', ms: 7 * 24 * HOUR },
+  { label: '30 days', ms: 30 * 24 * HOUR },
+];
+
+// 'unlimited' maps to a null max_uses
+const MAX_USE_OPTIONS = ['1', '5', '25', 'unlimited'];
+
+const STATUS_BADGE: Record<InviteStatus, 'default' | 'secondary' | 'outline'> = {
+  unused: 'default',
+  used: 'default',
+  'used up': 'secondary',
+  expired: 'outline',
+};
+
+interface InvitesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function InvitesDialog({ open, onOpenChange }: InvitesDialogProps) {
+  const { user } = useAuth();
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [expiry, setExpiry] = useState(String(7 * 24 * HOUR));
+  const [maxUses, setMaxUses] = useState('1');
+  const [busy, setBusy] = useState(false);
+  const [qrToken, setQrToken] = useState<string | null>(null);
+  const [myFingerprint, setMyFingerprint] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    if (!user) return;
+    fetchMyInvites(user.id).then(setInvites).catch(() => toast.error('Could not load invites'));
+  }, [user]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  // Shown QR codes carry this so scanning one in person pre-verifies us
+  useEffect(() => {
+    if (!open || !user) return;
+    setQrToken(null);
+    currentFingerprint(user.id).then(setMyFingerprint).catch(() => setMyFingerprint(null));
+  }, [open, user]);
+
+  const copy = async (token: string) => {
+    await navigator.clipboard.writeText(inviteLink(token));
+    toast.success('Invite link copied!');
+  };
+
+  const create = async () => {
+    setBusy(true);
+    try {
+      const token = await createInvite(user!.id, {
+        expiresInMs: Number(expiry),
+        maxUses: maxUses === 'unlimited' ? null : Number(maxUses),
+      });
+      await copy(token);
+      load();
+    } catch {
+      toast.error('Could not create link');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (token: string) => {
+    try {
+      await revokeInvite(token);
+      setInvites(prev => prev.filter(i => i.token !== token));
+      toast.success('Invite link revoked');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not revoke link');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Invites</DialogTitle>
+          <DialogDescription>
+            Anyone with an invite link becomes your friend straight away. Revoke links you no longer want to work.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="flex-1 bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(o => (
+                <SelectItem key={o.ms} value={String(o.ms)}>Expires in {o.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={maxUses} onValueChange={setMaxUses}>
+            <SelectTrigger className="w-36 bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_USE_OPTIONS.map(o => (
+                <SelectItem key={o} value={o}>
+                  {o === 'unlimited' ? 'Unlimited uses' : o === '1' ? 'Single use' : `${o} uses`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={create} disabled={busy} className="w-full">
+          <Link2 className="mr-2 h-4 w-4" />
+          Create and copy link
+        </Button>
+
+        {invites.length === 0 ? (
+          <p className="text-center text-xs text-muted-foreground">You haven't created any invite links yet.</p>
+        ) : (
+          <div className="max-h-72 space-y-1 overflow-y-auto">
+            {invites.map(invite => {
+              const status = inviteStatus(invite);
+              const active = status === 'unused' || status === 'used';
+              return (
+                <div key={invite.token} className="rounded-lg px-2 py-2">
+                  <div className="flex items-center gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-mono text-xs text-foreground">{invite.token.slice(0, 8)}</span>
+                        <Badge variant={STATUS_BADGE[status]}>
+                          {status}{invite.max_uses !== 1 && ` · ${invite.use_count}/${invite.max_uses ?? '∞'}`}
+                        </Badge>
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {invite.redeemed_by.length > 0
+                          ? `Used by ${invite.redeemed_by.map(u => `@${u}`).join(', ')}`
+                          : status === 'expired'
+                            ? `Expired ${formatDistanceToNow(new Date(invite.expires_at), { addSuffix: true })}`
+                            : `Expires ${formatDistanceToNow(new Date(invite.expires_at), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    {active && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setQrToken(qrToken === invite.token ? null : invite.token)}
+                        >
+                          <QrCode className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copy(invite.token)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => revoke(invite.token)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {active && qrToken === invite.token && (
+                    <div className="mx-auto mt-2 w-fit rounded-lg bg-white p-3">
+                      <QRCodeSVG value={inviteLink(invite.token, myFingerprint ?? undefined)} size={176} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
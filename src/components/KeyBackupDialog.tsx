@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { KeyBackup, MIN_RECOVERY_LENGTH, fetchKeyBackup, createKeyBackup, deleteKeyBackup } from '@/lib/key-backup';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CloudUpload, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface KeyBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function KeyBackupDialog({ open, onOpenChange }: KeyBackupDialogProps) {
+  const { user, vaultKey } = useAuth();
+  const [backup, setBackup] = useState<KeyBackup | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    setPassphrase('');
+    setConfirm('');
+    fetchKeyBackup(user.id).then(setBackup);
+  }, [open, user]);
+
+  const saveBackup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !vaultKey || !passphrase) return;
+    if (passphrase.length < MIN_RECOVERY_LENGTH) { toast.error(`Recovery passphrase must be at least ${MIN_RECOVERY_LENGTH} characters`); return; }
+    if (passphrase !== confirm) { toast.error('Passphrases do not match'); return; }
+
+    setSaving(true);
+    try {
+      await createKeyBackup(user.id, vaultKey, passphrase);
+      setBackup(await fetchKeyBackup(user.id));
+      setPassphrase('');
+      setConfirm('');
+      toast.success('Encrypted key backup saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Backup failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeBackup = async () => {
+    if (!user) return;
+    try {
+      await deleteKeyBackup(user.id);
+      setBackup(null);
+      toast.success('Key backup deleted');
+    } catch {
+      toast.error('Could not delete backup');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Key backup</DialogTitle>
+          <DialogDescription>
+            Your original account key is encrypted on this device with a recovery passphrase before upload. Use a passphrase
+            different from your password: the server never sees it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <p className="rounded-lg bg-secondary p-3 text-xs text-muted-foreground">
+          A restore only recovers messages from before per-device encryption. Newer messages are encrypted for each
+          device separately, and signing in on a new device can't recover them from this backup.
+        </p>
+
+        <p className="text-xs text-muted-foreground">
+          {backup
+            ? `Backed up with your ${backup.kind === 'password' ? 'account password' : 'recovery passphrase'} on ${new Date(backup.updated_at).toLocaleDateString()}`
+            : 'No backup yet'}
+        </p>
+        {backup?.kind === 'password' && (
+          <p className="text-xs text-destructive">
+            The server sees your account password when you sign in, so it could open this backup. Replace it with a
+            recovery passphrase, or delete it.
+          </p>
+        )}
+
+        <form onSubmit={saveBackup} className="space-y-4">
+          <Input
+            type="password"
+            placeholder="Recovery passphrase"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            className="h-11 bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+            required
+          />
+          <Input
+            type="password"
+            placeholder="Confirm passphrase"
+            value={confirm}
+            onChange={e => setConfirm(e.target.value)}
+            className="h-11 bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+            required
+          />
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1" disabled={saving || !vaultKey}>
+              <CloudUpload className="mr-2 h-4 w-4" />
+              {backup ? 'Update backup' : 'Back up keys'}
+            </Button>
+            {backup && (
+              <Button type="button" variant="ghost" size="icon" className="text-destructive" onClick={removeBackup}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,43 @@
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
+
+interface KeyChangeBannerProps {
+  usernames: string[]; // contacts whose keys changed
+  ownDevices: boolean; // the user's own devices changed
+  onAccept: () => void;
+  onVerify?: () => void;
+}
+
+// Shown above the composer while sending is blocked on unacknowledged key changes
+export default function KeyChangeBanner({ usernames, ownDevices, onAccept, onVerify }: KeyChangeBannerProps) {
+  if (usernames.length === 0 && !ownDevices) return null;
+  const names = usernames.map(u => `@${u}`).join(', ');
+
+  return (
+    <div className="mb-3 space-y-2 rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-xs text-destructive">
+      {usernames.length > 0 && (
+        <p className="flex items-start gap-2">
+          <ShieldAlert className="h-4 w-4 shrink-0" />
+          <span>
+            {usernames.length === 1 ? `${names}'s keys have changed.` : `The keys of ${names} have changed.`} They may
+            have reinstalled or added a device, or someone may be intercepting this chat. Verify the safety number
+            before sending anything new.
+          </span>
+        </p>
+      )}
+      {ownDevices && (
+        <p className="flex items-start gap-2">
+          <ShieldAlert className="h-4 w-4 shrink-0" />
+          <span>
+            The devices on your account have changed, and they receive a copy of everything you send. If you didn't
+            just sign in on another device, change your password before accepting.
+          </span>
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onAccept}>Accept new keys</Button>
+        {onVerify && <Button size="sm" variant="destructive" onClick={onVerify}>Verify</Button>}
+      </div>
+    </div>
+  );
+}
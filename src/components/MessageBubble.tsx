@@ -0,0 +1,228 @@
+import { motion } from 'framer-motion';
+import { AlertCircle, Ban, Check, CheckCheck, Clock, History, Pencil, Reply, ShieldAlert, Trash2 } from 'lucide-react';
+import { DecryptedMessage, formatTime } from '@/lib/messages';
+import AttachmentView from '@/components/AttachmentView';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+const SWIPE_REPLY_DISTANCE = 60;
+
+interface MessageBubbleProps {
+  msg: DecryptedMessage;
+  edits?: DecryptedMessage[];
+  reactions?: Map<string, string>; // emoji by user id
+  myId: string;
+  isMine: boolean;
+  animate: boolean;
+  highlighted: boolean;
+  nameOf: (userId: string) => string;
+  senderName?: string; // shown above received messages in groups
+  // Retry/discard act on the message's latest queued revision
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onEdit: () => void;
+  onShowHistory: () => void;
+  onDelete: () => void;
+  onReact: (emoji: string) => void; // empty string removes our reaction
+  onReply: () => void;
+  onJumpTo: (messageId: string) => void;
+}
+
+export default function MessageBubble({
+  msg,
+  edits,
+  reactions,
+  myId,
+  isMine,
+  animate,
+  highlighted,
+  nameOf,
+  senderName,
+  onRetry,
+  onDiscard,
+  onEdit,
+  onShowHistory,
+  onDelete,
+  onReact,
+  onReply,
+  onJumpTo,
+}: MessageBubbleProps) {
+  const latest = edits?.[edits.length - 1] ?? msg;
+  const { meta } = msg.envelope;
+  const body = latest.envelope.body;
+  const edited = !!edits?.length;
+  const canEdit = isMine && !msg.status && !msg.deleted && msg.envelope.type === 'text';
+  const muted = isMine ? 'text-primary-foreground/60' : 'text-muted-foreground';
+  const myReaction = reactions?.get(myId);
+  const toggleReaction = (emoji: string) => onReact(emoji === myReaction ? '' : emoji);
+
+  // Reaction chips: each emoji with how many people used it
+  const chips = new Map<string, number>();
+  reactions?.forEach(emoji => chips.set(emoji, (chips.get(emoji) ?? 0) + 1));
+
+  if (msg.deleted) {
+    return (
+      <div className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+        <ContextMenu>
+          <ContextMenuTrigger asChild>
+            <div className="flex max-w-[80%] items-center gap-1.5 rounded-2xl border border-border px-3.5 py-2 text-xs italic text-muted-foreground">
+              <Ban className="h-3.5 w-3.5" />
+              {isMine ? 'You deleted this message' : 'This message was deleted'}
+              <span className="ml-1 text-[10px] not-italic">{formatTime(msg.created_at)}</span>
+            </div>
+          </ContextMenuTrigger>
+          <ContextMenuContent>
+            <ContextMenuItem onSelect={onDelete}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete for me
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
+      </div>
+    );
+  }
+
+  const bubble = (
+    <div
+      className={`max-w-[80%] rounded-2xl px-3.5 py-2 transition-shadow ${
+        isMine
+          ? 'chat-bubble-sent rounded-br-md'
+          : 'chat-bubble-received rounded-bl-md'
+      } ${highlighted ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''}`}
+    >
+      {meta.reply && (
+        <button
+          type="button"
+          onClick={() => onJumpTo(meta.reply!.id)}
+          className={`mb-1.5 block w-full rounded-lg border-l-2 px-2 py-1 text-left text-xs ${
+            isMine ? 'border-primary-foreground/60 bg-primary-foreground/10' : 'border-primary bg-background/40'
+          }`}
+        >
+          <span className="block font-medium">{nameOf(meta.reply.sender_id)}</span>
+          <span className={`line-clamp-2 break-words ${muted}`}>{meta.reply.excerpt}</span>
+        </button>
+      )}
+      {meta.attachment && (
+        <div className={body ? 'mb-1.5' : ''}>
+          <AttachmentView attachment={meta.attachment} isMine={isMine} />
+        </div>
+      )}
+      {body && <p className="text-sm leading-relaxed break-words">{body}</p>}
+      <div className="mt-0.5 flex items-center justify-end gap-1">
+        {msg.signature === 'invalid' && (
+          <span className="flex items-center gap-0.5 text-[10px] font-medium text-destructive">
+            <ShieldAlert className="h-3 w-3" />
+            Sender not verified
+          </span>
+        )}
+        {msg.signature === 'unsigned' && (
+          <span className={`text-[10px] ${muted}`}>Unsigned ·</span>
+        )}
+        {edited && (
+          <button type="button" onClick={onShowHistory} className={`text-[10px] hover:underline ${muted}`}>
+            edited ·
+          </button>
+        )}
+        <p className={`text-[10px] ${muted}`}>
+          {formatTime(msg.created_at)}
+        </p>
+        {isMine && !latest.status && (
+          <div className={msg.read_at ? "text-blue-400" : "text-primary-foreground/40"}>
+            {msg.read_at ? (
+              <CheckCheck className="h-3.5 w-3.5" />
+            ) : (
+              <Check className="h-3.5 w-3.5" />
+            )}
+          </div>
+        )}
+        {latest.status === 'pending' && <Clock className="h-3 w-3 text-primary-foreground/40" />}
+        {latest.status === 'failed' && <AlertCircle className="h-3.5 w-3.5 text-destructive" />}
+      </div>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={animate ? { opacity: 0, y: 8 } : false}
+      animate={{ opacity: 1, y: 0 }}
+      // Swipe right to reply
+      drag={latest.status ? false : 'x'}
+      dragConstraints={{ left: 0, right: 0 }}
+      dragElastic={{ left: 0, right: 0.4 }}
+      dragSnapToOrigin
+      onDragEnd={(_, info) => info.offset.x > SWIPE_REPLY_DISTANCE && onReply()}
+      className={`flex flex-col ${isMine ? 'items-end' : 'items-start'}`}
+    >
+      {senderName && <p className="mb-0.5 px-2 text-[11px] font-medium text-primary">{senderName}</p>}
+      {!latest.status ? (
+        <ContextMenu>
+          <ContextMenuTrigger asChild>{bubble}</ContextMenuTrigger>
+          <ContextMenuContent>
+            <div className="flex gap-0.5 p-1">
+              {QUICK_REACTIONS.map(emoji => (
+                <ContextMenuItem
+                  key={emoji}
+                  onSelect={() => toggleReaction(emoji)}
+                  className={`px-2 text-lg ${emoji === myReaction ? 'bg-accent' : ''}`}
+                >
+                  {emoji}
+                </ContextMenuItem>
+              ))}
+            </div>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={onReply}>
+              <Reply className="mr-2 h-4 w-4" />
+              Reply
+            </ContextMenuItem>
+            {canEdit && (
+              <ContextMenuItem onSelect={onEdit}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </ContextMenuItem>
+            )}
+            {edited && (
+              <ContextMenuItem onSelect={onShowHistory}>
+                <History className="mr-2 h-4 w-4" />
+                Edit history
+              </ContextMenuItem>
+            )}
+            <ContextMenuItem onSelect={onDelete} className="text-destructive focus:text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
+      ) : bubble}
+      {chips.size > 0 && (
+        <div className="-mt-1.5 flex flex-wrap gap-1 px-2">
+          {[...chips].map(([emoji, count]) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => toggleReaction(emoji)}
+              className={`flex items-center gap-0.5 rounded-full border px-1.5 py-0.5 text-xs ${
+                emoji === myReaction ? 'border-primary bg-primary/10' : 'border-border bg-secondary'
+              }`}
+            >
+              {emoji}
+              {count > 1 && <span className="text-[10px] text-muted-foreground">{count}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      {latest.status === 'failed' && (
+        <div className="mt-1 flex gap-3 text-[11px]">
+          <span className="text-destructive">{latest === msg ? 'Not sent' : 'Edit not sent'}</span>
+          <button type="button" onClick={() => onRetry(latest.id)} className="font-medium text-primary hover:underline">Retry</button>
+          <button type="button" onClick={() => onDiscard(latest.id)} className="text-muted-foreground hover:underline">Discard</button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
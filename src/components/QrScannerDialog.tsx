@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import jsQR from 'jsqr';
+import { ScannedInviteState, inviteFingerprint, invitePath } from '@/lib/invites';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface QrScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Camera frames are decoded on the main thread, so they're scaled down first
+const SCAN_WIDTH = 480;
+
+export default function QrScannerDialog({ open, onOpenChange }: QrScannerDialogProps) {
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notInvite, setNotInvite] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setNotInvite(false);
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    const scan = () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      if (video && context && video.readyState >= video.HAVE_ENOUGH_DATA) {
+        const scale = Math.min(1, SCAN_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+        if (code) {
+          const path = invitePath(code.data);
+          if (path) {
+            const state: ScannedInviteState = { fingerprint: inviteFingerprint(new URL(code.data).hash) };
+            onOpenChange(false);
+            navigate(path, { state });
+            return;
+          }
+          setNotInvite(true);
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    (async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+      } catch {
+        setError('Could not access the camera. Check that VaultChat is allowed to use it.');
+        return;
+      }
+      const video = videoRef.current;
+      if (stopped || !video) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      video.srcObject = stream;
+      await video.play().catch(() => {});
+      frame = requestAnimationFrame(scan);
+    })();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [open, navigate, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Scan invite</DialogTitle>
+          <DialogDescription>Point your camera at a friend's invite QR code.</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-center text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="overflow-hidden rounded-lg bg-black">
+              <video ref={videoRef} muted playsInline className="aspect-square w-full object-cover" />
+            </div>
+            {notInvite && (
+              <p className="text-center text-xs text-muted-foreground">That QR code isn't a VaultChat invite.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { useAuth } from '@/lib/auth-context';
+import {
+  fetchIdentityKeys,
+  computeSafetyNumber,
+  safetyNumberQrValue,
+  getVerification,
+  markVerified,
+  clearVerification,
+} from '@/lib/safety-number';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface SafetyNumberDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contactId: string;
+  contactUsername?: string;
+  onVerifiedChange: (verified: boolean) => void;
+}
+
+export default function SafetyNumberDialog({ open, onOpenChange, contactId, contactUsername, onVerifiedChange }: SafetyNumberDialogProps) {
+  const { user } = useAuth();
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [theirFingerprint, setTheirFingerprint] = useState<string | null>(null);
+  const [verified, setVerified] = useState(false);
+  const [error, setError] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    let cancelled = false;
+    setError(false);
+    (async () => {
+      const [myKeys, theirKeys, verification] = await Promise.all([
+        fetchIdentityKeys(user.id),
+        fetchIdentityKeys(contactId),
+        getVerification(user.id, contactId),
+      ]);
+      const result = await computeSafetyNumber(user.id, myKeys, contactId, theirKeys);
+      if (cancelled) return;
+      setSafetyNumber(result.safetyNumber);
+      setTheirFingerprint(result.theirFingerprint);
+      setVerified(verification?.fingerprint === result.theirFingerprint);
+    })().catch(err => {
+      console.error('Failed to compute safety number', err);
+      if (!cancelled) setError(true);
+    });
+    return () => { cancelled = true; };
+  }, [open, user, contactId, attempt]);
+
+  const toggleVerified = async () => {
+    if (!user || !theirFingerprint) return;
+    if (verified) {
+      await clearVerification(user.id, contactId);
+      toast.success('Verification cleared');
+    } else {
+      await markVerified(user.id, contactId, theirFingerprint);
+      toast.success(`@${contactUsername} marked as verified`);
+    }
+    setVerified(!verified);
+    onVerifiedChange(!verified);
+  };
+
+  const groups = safetyNumber?.match(/.{5}/g) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Verify safety number</DialogTitle>
+          <DialogDescription>
+            Compare these numbers with @{contactUsername} in person or over a trusted channel, or scan each other's code.
+            They change whenever either of you gets new keys or adds a device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {safetyNumber ? (
+          <div className="space-y-4">
+            <div className="mx-auto w-fit rounded-lg bg-white p-3">
+              <QRCodeSVG value={safetyNumberQrValue(safetyNumber)} size={176} />
+            </div>
+            <div className="grid grid-cols-4 gap-x-4 gap-y-2 text-center font-mono text-sm text-foreground">
+              {groups.map((g, i) => <span key={i}>{g}</span>)}
+            </div>
+            <Button onClick={toggleVerified} variant={verified ? 'secondary' : 'default'} className="w-full">
+              {verified ? (
+                <>
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                  Clear verification
+                </>
+              ) : (
+                <>
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Mark as verified
+                </>
+              )}
+            </Button>
+          </div>
+        ) : error ? (
+          <div className="space-y-3 text-center">
+            <p className="text-sm text-destructive">Could not load the keys to compare. Check your connection.</p>
+            <Button variant="secondary" onClick={() => setAttempt(n => n + 1)}>Try again</Button>
+          </div>
+        ) : (
+          <div className="h-8 w-8 mx-auto animate-spin rounded-full border-2 border-primary border-t-transparent" />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { KeyRound, LockKeyhole } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+
+// Shown when signed in but the vault key isn't available, e.g. for sessions
+// that predate the vault or after it was locked from another tab.
+export default function UnlockVault() {
+  const { user, unlock, signOut } = useAuth();
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setLoading(true);
+    try {
+      await unlock(password);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not unlock vault');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-background px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm space-y-8"
+      >
+        <div className="text-center space-y-2">
+          <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-2xl bg-primary/10">
+            <LockKeyhole className="h-8 w-8 text-primary" />
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight text-foreground">Unlock vault</h1>
+          <p className="text-sm text-muted-foreground">
+            Enter your password to unlock the encryption keys for {user?.email ?? 'this account'}
+          </p>
+        </div>
+
+        <form onSubmit={handleUnlock} className="space-y-4">
+          <Input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="h-12 bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+            autoFocus
+            required
+          />
+          <Button type="submit" className="h-12 w-full text-base font-semibold" disabled={loading}>
+            {loading ? (
+              <div className="h-5 w-5 animate-spin rounded-full border-2 border-primary-foreground border-t-transparent" />
+            ) : (
+              <>
+                <KeyRound className="mr-2 h-5 w-5" />
+                Unlock
+              </>
+            )}
+          </Button>
+        </form>
+
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={signOut}
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Sign out
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useMemo, useState } from 'react';
+import { DecryptedMessage, collectEdits, collectReactions, replyReference } from '@/lib/messages';
+import { Envelope, createEnvelope } from '@/lib/envelope';
+import { Attachment } from '@/lib/attachments';
+import { toast } from 'sonner';
+
+// The draft being written and the message it edits or replies to. Edits and
+// reactions are folded into the messages they refer to rather than shown.
+export function useComposer(messages: DecryptedMessage[], send: (envelope: Envelope) => Promise<unknown>) {
+  const [newMessage, setNewMessage] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<DecryptedMessage | null>(null);
+
+  const edits = useMemo(() => collectEdits(messages), [messages]);
+  const reactions = useMemo(() => collectReactions(messages), [messages]);
+
+  const latestBody = (msg: DecryptedMessage) => {
+    const revisions = edits.get(msg.id);
+    return (revisions?.[revisions.length - 1] ?? msg).envelope.body;
+  };
+
+  const replyMeta = () => (replyTo ? { reply: replyReference(replyTo, latestBody(replyTo)) } : {});
+
+  // The draft as an edit of the message being edited, or as a new message
+  const draftEnvelope = () => editingId
+    ? createEnvelope('edit', newMessage.trim(), { target: editingId })
+    : createEnvelope('text', newMessage.trim(), replyMeta());
+
+  // An attachment captioned with the draft
+  const attachmentEnvelope = (attachment: Attachment) =>
+    createEnvelope('attachment', newMessage.trim(), { attachment, ...replyMeta() });
+
+  const clearDraft = () => {
+    setNewMessage('');
+    setEditingId(null);
+    setReplyTo(null);
+  };
+
+  const startReply = (msg: DecryptedMessage) => {
+    if (editingId) cancelEdit();
+    setReplyTo(msg);
+  };
+
+  const startEdit = (msg: DecryptedMessage) => {
+    setReplyTo(null);
+    setEditingId(msg.id);
+    setNewMessage(latestBody(msg));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setNewMessage('');
+  };
+
+  const react = async (messageId: string, emoji: string) => {
+    try {
+      await send(createEnvelope('reaction', emoji, { target: messageId }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not send reaction');
+    }
+  };
+
+  return {
+    newMessage,
+    setNewMessage,
+    editingId,
+    replyTo,
+    setReplyTo,
+    edits,
+    reactions,
+    latestBody,
+    draftEnvelope,
+    attachmentEnvelope,
+    clearDraft,
+    startReply,
+    startEdit,
+    cancelEdit,
+    react,
+  };
+}
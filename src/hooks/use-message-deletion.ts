@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { DecryptedMessage, fetchDeleteWindow, deleteForEveryone, toTombstone } from '@/lib/messages';
+import { loadHiddenIds, hideMessage } from '@/lib/message-cache';
+import { forgetPlaintext } from '@/lib/plaintexts';
+import { toast } from 'sonner';
+
+interface MessageDeletionOptions {
+  userId: string | undefined;
+  // The friend's or group's id hidden messages are kept under
+  conversationId: string | undefined;
+  setMessages: Dispatch<SetStateAction<DecryptedMessage[]>>;
+}
+
+// Deleting messages for the user only (hidden locally) or for everyone
+// (tombstoned on the server within the delete window)
+export function useMessageDeletion({ userId, conversationId, setMessages }: MessageDeletionOptions) {
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
+  const [deleteTarget, setDeleteTarget] = useState<DecryptedMessage | null>(null);
+  const [deleteWindow, setDeleteWindow] = useState(0);
+
+  useEffect(() => {
+    if (!userId || !conversationId) return;
+    loadHiddenIds(userId, conversationId).then(ids => setHiddenIds(new Set(ids))).catch(() => {});
+  }, [userId, conversationId]);
+
+  // Fetched again whenever the delete dialog opens, in case an earlier fetch
+  // failed and the default was used
+  useEffect(() => {
+    fetchDeleteWindow().then(setDeleteWindow).catch(() => {});
+  }, [deleteTarget]);
+
+  // Replace deleted messages with tombstones and drop their edits, which the
+  // server removes along with them
+  const applyTombstones = useCallback((ids: string[]) => {
+    if (!userId || ids.length === 0) return;
+    const deleted = new Set(ids);
+    setMessages(prev => {
+      const revisions = prev.filter(m => m.envelope.type === 'edit' && deleted.has(m.envelope.meta.target!));
+      revisions.forEach(m => forgetPlaintext(userId, m.id).catch(() => {}));
+      return prev
+        .filter(m => !revisions.includes(m))
+        .map(m => deleted.has(m.id) && !m.deleted ? toTombstone(m) : m);
+    });
+    ids.forEach(id => forgetPlaintext(userId, id).catch(() => {}));
+  }, [userId, setMessages]);
+
+  const canDeleteForEveryone = (msg: DecryptedMessage) =>
+    msg.sender_id === userId && !msg.deleted && !msg.status &&
+    Date.now() - new Date(msg.created_at).getTime() < deleteWindow;
+
+  const deleteMessage = async (scope: 'me' | 'everyone') => {
+    const msg = deleteTarget;
+    setDeleteTarget(null);
+    if (!msg || !userId || !conversationId) return;
+    try {
+      if (scope === 'everyone') {
+        await deleteForEveryone(msg);
+        applyTombstones([msg.id]);
+      } else {
+        await hideMessage(userId, conversationId, msg.id);
+        setHiddenIds(prev => new Set(prev).add(msg.id));
+        forgetPlaintext(userId, msg.id).catch(() => {});
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not delete message');
+    }
+  };
+
+  return { hiddenIds, deleteTarget, setDeleteTarget, canDeleteForEveryone, deleteMessage, applyTombstones };
+}
@@ -0,0 +1,77 @@
+import { useRef, useState } from 'react';
+import type { Dispatch, RefObject, SetStateAction } from 'react';
+import {
+  Conversation,
+  DecryptedMessage,
+  fetchMessagePage,
+  decryptRows,
+  mergeMessages,
+  PAGE_SIZE,
+} from '@/lib/messages';
+import { toast } from 'sonner';
+
+interface MessagePagingOptions {
+  userId: string | undefined;
+  conversation: Conversation | null;
+  // Legacy RSA key, only needed for messages sent before ratchet sessions
+  privateKey: CryptoKey | null;
+  messages: DecryptedMessage[];
+  setMessages: Dispatch<SetStateAction<DecryptedMessage[]>>;
+  scrollRef: RefObject<HTMLDivElement>;
+}
+
+// Older pages of a conversation, loaded as the user scrolls up or jumps to
+// a quoted message
+export function useMessagePaging({ userId, conversation, privateKey, messages, setMessages, scrollRef }: MessagePagingOptions) {
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Scroll position from just before a page is prepended
+  const prependRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+
+  const loadOlderMessages = async () => {
+    const oldest = messages[0];
+    if (!userId || !conversation || !oldest || loadingOlder || !hasMore) return;
+
+    setLoadingOlder(true);
+    try {
+      const rows = await fetchMessagePage(userId, conversation, oldest);
+      const older = await decryptRows(userId, rows, privateKey);
+      const el = scrollRef.current;
+      if (el) prependRef.current = { scrollHeight: el.scrollHeight, scrollTop: el.scrollTop };
+      setMessages(prev => mergeMessages(prev, older));
+      setHasMore(rows.length === PAGE_SIZE);
+    } catch {
+      toast.error('Could not load older messages');
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // Page back through history until the message is loaded or there is no
+  // more; false if a page failed to load
+  const loadUntil = async (id: string): Promise<boolean> => {
+    let loaded = messages;
+    let more = hasMore;
+    if (!userId || !conversation || loaded.some(m => m.id === id) || !more) return true;
+
+    setLoadingOlder(true);
+    try {
+      while (!loaded.some(m => m.id === id) && more) {
+        const rows = await fetchMessagePage(userId, conversation, loaded[0]);
+        loaded = mergeMessages(loaded, await decryptRows(userId, rows, privateKey));
+        more = rows.length === PAGE_SIZE;
+      }
+      const fetched = loaded;
+      setMessages(prev => mergeMessages(prev, fetched));
+      setHasMore(more);
+      return true;
+    } catch {
+      toast.error('Could not load older messages');
+      return false;
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  return { hasMore, setHasMore, loadingOlder, prependRef, loadOlderMessages, loadUntil };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { DecryptedMessage, MessageRow, mergeMessages } from '@/lib/messages';
+import { queuedMessageIds, sendQueuedMessage, discardQueuedMessage } from '@/lib/outbox';
+
+interface OutboxOptions {
+  userId: string | undefined;
+  // The friend's or group's id the queue is kept under
+  conversationId: string | undefined;
+  // Delivery starts once the conversation is loaded and its keys are ready
+  enabled: boolean;
+  setMessages: Dispatch<SetStateAction<DecryptedMessage[]>>;
+  // Inserts one queued row; groups reseal it first if the members changed
+  send?: (id: string) => Promise<MessageRow>;
+}
+
+// Delivery of queued messages: retried now and whenever the browser comes
+// back online, with each bubble's status kept up to date
+export function useOutbox({ userId, conversationId, enabled, setMessages, send = sendQueuedMessage }: OutboxOptions) {
+  const deliveringRef = useRef(new Set<string>());
+  // Always the latest send, so it sees the conversation's current state
+  const sendRef = useRef(send);
+  sendRef.current = send;
+
+  // Insert one queued message and update its bubble; false if it is still queued
+  const deliver = useCallback(async (id: string): Promise<boolean> => {
+    if (!navigator.onLine || deliveringRef.current.has(id)) return false;
+    deliveringRef.current.add(id);
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, status: 'pending' } : m));
+    try {
+      const row = await sendRef.current(id);
+      setMessages(prev => mergeMessages(
+        prev.map(m => m.id === id ? { ...m, created_at: row.created_at, status: undefined } : m),
+        []
+      ));
+      return true;
+    } catch {
+      setMessages(prev => prev.map(m => m.id === id ? { ...m, status: 'failed' } : m));
+      return false;
+    } finally {
+      deliveringRef.current.delete(id);
+    }
+  }, [setMessages]);
+
+  // Deliver queued messages in order, stopping at the first that fails
+  const flushOutbox = useCallback(async () => {
+    if (!userId || !conversationId) return;
+    for (const id of await queuedMessageIds(userId, conversationId)) {
+      if (!(await deliver(id))) break;
+    }
+  }, [userId, conversationId, deliver]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    flushOutbox();
+    window.addEventListener('online', flushOutbox);
+    return () => window.removeEventListener('online', flushOutbox);
+  }, [enabled, flushOutbox]);
+
+  const discardMessage = useCallback(async (id: string) => {
+    await discardQueuedMessage(id);
+    setMessages(prev => prev.filter(m => m.id !== id));
+  }, [setMessages]);
+
+  return { deliver, discardMessage };
+}
@@ -0,0 +1,82 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { MutableRefObject, RefObject } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { toast } from 'sonner';
+
+// Distance from the top/bottom edge (px) that counts as "at" that edge
+const EDGE_THRESHOLD = 150;
+
+interface TimelineScrollOptions {
+  // Rows in time order, keyed by id
+  timeline: { id: string }[];
+  loading: boolean;
+  scrollRef: RefObject<HTMLDivElement>;
+  prependRef: MutableRefObject<{ scrollHeight: number; scrollTop: number } | null>;
+  loadOlderMessages: () => void;
+  loadUntil: (id: string) => Promise<boolean>;
+}
+
+// Virtualized scrolling of a chat timeline. New messages are followed only
+// while the user is at the bottom, the viewport stays still when older pages
+// are prepended, and quoted messages can be jumped to.
+export function useTimelineScroll({ timeline, loading, scrollRef, prependRef, loadOlderMessages, loadUntil }: TimelineScrollOptions) {
+  const atBottomRef = useRef(true);
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+
+  const virtualizer = useVirtualizer({
+    count: timeline.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 64,
+    overscan: 10,
+    getItemKey: index => timeline[index].id,
+  });
+
+  // Keep the same messages in view after older ones are prepended
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const prepend = prependRef.current;
+    if (!el || !prepend) return;
+    prependRef.current = null;
+    el.scrollTop = prepend.scrollTop + (el.scrollHeight - prepend.scrollHeight);
+  }, [timeline.length, scrollRef, prependRef]);
+
+  // Follow new messages while the user is at the bottom
+  useEffect(() => {
+    if (loading || !atBottomRef.current || timeline.length === 0) return;
+    virtualizer.scrollToIndex(timeline.length - 1, { align: 'end' });
+  }, [loading, timeline.length, virtualizer]);
+
+  // Once a jumped-to message is in the timeline, centre and briefly highlight it
+  useEffect(() => {
+    if (!jumpTarget) return;
+    setJumpTarget(null);
+    const index = timeline.findIndex(item => item.id === jumpTarget);
+    if (index === -1) {
+      toast.error('The original message is no longer available');
+      return;
+    }
+    virtualizer.scrollToIndex(index, { align: 'center' });
+    setHighlightId(jumpTarget);
+  }, [jumpTarget, timeline, virtualizer]);
+
+  useEffect(() => {
+    if (!highlightId) return;
+    const timer = setTimeout(() => setHighlightId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightId]);
+
+  // Scroll to a quoted message, loading older pages first if needed
+  const jumpToMessage = async (id: string) => {
+    if (await loadUntil(id)) setJumpTarget(id);
+  };
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    atBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < EDGE_THRESHOLD;
+    if (el.scrollTop < EDGE_THRESHOLD) loadOlderMessages();
+  };
+
+  return { virtualizer, atBottomRef, highlightId, jumpToMessage, handleScroll };
+}
@@ -14,6 +14,63 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          value: string
+        }
+        Insert: {
+          key: string
+          value: string
+        }
+        Update: {
+          key?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      devices: {
+        Row: {
+          created_at: string
+          id: string
+          identity_key: string
+          last_seen_at: string
+          name: string
+          signed_prekey: string
+          signed_prekey_id: number
+          signed_prekey_signature: string
+          signing_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          identity_key: string
+          last_seen_at?: string
+          name?: string
+          signed_prekey: string
+          signed_prekey_id: number
+          signed_prekey_signature: string
+          signing_key: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          identity_key?: string
+          last_seen_at?: string
+          name?: string
+          signed_prekey?: string
+          signed_prekey_id?: number
+          signed_prekey_signature?: string
+          signing_key?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       friend_requests: {
         Row: {
           created_at: string
@@ -38,12 +95,134 @@ export type Database = {
         }
         Relationships: []
       }
+      group_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          group_id: string
+          id: string
+          target_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          group_id: string
+          id?: string
+          target_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          group_id?: string
+          id?: string
+          target_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_events_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_members: {
+        Row: {
+          added_by: string | null
+          group_id: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          group_id: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          group_id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      groups: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          epoch: number
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          epoch?: number
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          epoch?: number
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invite_redemptions: {
+        Row: {
+          redeemed_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          redeemed_at?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          redeemed_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invite_redemptions_token_fkey"
+            columns: ["token"]
+            isOneToOne: false
+            referencedRelation: "invite_tokens"
+            referencedColumns: ["token"]
+          },
+        ]
+      }
       invite_tokens: {
         Row: {
           created_at: string
           created_by: string
           expires_at: string
+          max_uses: number | null
           token: string
+          use_count: number
           used_at: string | null
           used_by: string | null
         }
@@ -51,7 +230,9 @@ export type Database = {
           created_at?: string
           created_by: string
           expires_at?: string
+          max_uses?: number | null
           token?: string
+          use_count?: number
           used_at?: string | null
           used_by?: string | null
         }
@@ -59,39 +240,140 @@ export type Database = {
           created_at?: string
           created_by?: string
           expires_at?: string
+          max_uses?: number | null
           token?: string
+          use_count?: number
           used_at?: string | null
           used_by?: string | null
         }
         Relationships: []
       }
+      key_backups: {
+        Row: {
+          created_at: string
+          iv: string
+          kind: string
+          salt: string
+          updated_at: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          iv: string
+          kind: string
+          salt: string
+          updated_at?: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          iv?: string
+          kind?: string
+          salt?: string
+          updated_at?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: []
+      }
+      last_seen: {
+        Row: {
+          seen_at: string
+          user_id: string
+        }
+        Insert: {
+          seen_at: string
+          user_id: string
+        }
+        Update: {
+          seen_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           ciphertext: string
           created_at: string
+          deleted_at: string | null
           encrypted_key: string
+          epoch: number | null
+          expires_at: string | null
+          group_id: string | null
           id: string
           iv: string
-          receiver_id: string
+          read_at: string | null
+          receiver_id: string | null
+          revises: string | null
+          sender_device_id: string | null
           sender_id: string
+          signature: string | null
+          silent: boolean
+          version: number
         }
         Insert: {
           ciphertext: string
           created_at?: string
+          deleted_at?: string | null
           encrypted_key: string
+          epoch?: number | null
+          expires_at?: string | null
+          group_id?: string | null
           id?: string
           iv: string
-          receiver_id: string
+          read_at?: string | null
+          receiver_id: string | null
+          revises?: string | null
+          sender_device_id?: string | null
           sender_id: string
+          signature?: string | null
+          silent?: boolean
+          version?: number
         }
         Update: {
           ciphertext?: string
           created_at?: string
+          deleted_at?: string | null
           encrypted_key?: string
+          epoch?: number | null
+          expires_at?: string | null
+          group_id?: string | null
           id?: string
           iv?: string
-          receiver_id?: string
+          read_at?: string | null
+          receiver_id?: string | null
+          revises?: string | null
+          sender_device_id?: string | null
           sender_id?: string
+          signature?: string | null
+          silent?: boolean
+          version?: number
+        }
+        Relationships: []
+      }
+      one_time_prekeys: {
+        Row: {
+          created_at: string
+          device_id: string
+          key_id: number
+          public_key: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          key_id: number
+          public_key: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          key_id?: number
+          public_key?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -100,6 +382,7 @@ export type Database = {
           created_at: string
           id: string
           public_key: string | null
+          show_presence: boolean
           updated_at: string
           user_id: string
           username: string
@@ -108,6 +391,7 @@ export type Database = {
           created_at?: string
           id?: string
           public_key?: string | null
+          show_presence?: boolean
           updated_at?: string
           user_id: string
           username: string
@@ -116,6 +400,7 @@ export type Database = {
           created_at?: string
           id?: string
           public_key?: string | null
+          show_presence?: boolean
           updated_at?: string
           user_id?: string
           username?: string
@@ -127,7 +412,72 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_group_member: {
+        Args: { target_group: string; new_member: string }
+        Returns: undefined
+      }
+      are_friends: {
+        Args: { a: string; b: string }
+        Returns: boolean
+      }
+      claim_one_time_prekey: {
+        Args: { target_device: string }
+        Returns: {
+          key_id: number
+          public_key: string
+        }[]
+      }
+      create_group: {
+        Args: { group_name: string; member_ids?: string[] }
+        Returns: string
+      }
+      delete_message_for_everyone: {
+        Args: { target: string }
+        Returns: undefined
+      }
+      get_conversations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          friend_id: string
+          last_message: Json
+          unread_count: number
+        }[]
+      }
+      is_group_admin: {
+        Args: { target_group: string }
+        Returns: boolean
+      }
+      is_group_member: {
+        Args: { target_group: string }
+        Returns: boolean
+      }
+      mark_messages_read: {
+        Args: { sender: string; message_ids?: string[] }
+        Returns: undefined
+      }
+      preview_invite: {
+        Args: { invite_token: string }
+        Returns: {
+          inviter_id: string
+          inviter_username: string
+        }[]
+      }
+      redeem_invite: {
+        Args: { invite_token: string }
+        Returns: string
+      }
+      remove_group_member: {
+        Args: { target_group: string; member: string }
+        Returns: undefined
+      }
+      set_group_member_role: {
+        Args: { target_group: string; member: string; new_role: string }
+        Returns: undefined
+      }
+      touch_last_seen: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
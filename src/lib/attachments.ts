@@ -0,0 +1,82 @@
+// Encrypted file attachments. Each file is encrypted with its own AES-GCM key
+// and the ciphertext uploaded to Storage; the key, hash and file metadata are
+// sent inside the (end-to-end encrypted) message envelope.
+
+import { supabase } from '@/integrations/supabase/client';
+import { toBase64, fromBase64 } from './crypto';
+
+const BUCKET = 'attachments';
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // matches the bucket limit
+
+export interface Attachment {
+  path: string;
+  key: string; // raw AES-GCM key (b64)
+  iv: string;
+  sha256: string; // of the plaintext file (b64)
+  name: string;
+  mime: string;
+  size: number;
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  return toBase64(await crypto.subtle.digest('SHA-256', data));
+}
+
+export async function uploadAttachment(userId: string, file: File): Promise<Attachment> {
+  if (file.size > MAX_ATTACHMENT_SIZE) throw new Error('Files can be at most 25 MB');
+
+  const data = await file.arrayBuffer();
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, key, data);
+
+  // Object names reveal nothing about the file
+  const path = `${userId}/${crypto.randomUUID()}`;
+  const { error } = await supabase.storage.from(BUCKET).upload(path, new Blob([encrypted]), {
+    contentType: 'application/octet-stream',
+  });
+  if (error) throw error;
+
+  return {
+    path,
+    key: toBase64(await crypto.subtle.exportKey('raw', key)),
+    iv: toBase64(iv),
+    sha256: await sha256(data),
+    name: file.name,
+    mime: file.type || 'application/octet-stream',
+    size: file.size,
+  };
+}
+
+// Download, decrypt and check an attachment against the hash in the message
+export async function downloadAttachment(attachment: Attachment): Promise<Blob> {
+  const { data, error } = await supabase.storage.from(BUCKET).download(attachment.path);
+  if (error) throw error;
+
+  const key = await crypto.subtle.importKey('raw', fromBase64(attachment.key) as BufferSource, 'AES-GCM', false, ['decrypt']);
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(attachment.iv) as BufferSource },
+    key,
+    await data.arrayBuffer()
+  );
+  if ((await sha256(decrypted)) !== attachment.sha256) throw new Error('Attachment does not match its hash');
+  return new Blob([decrypted], { type: attachment.mime });
+}
+
+// Remove the ciphertext from Storage (only the uploader may)
+export async function deleteAttachment(attachment: Attachment): Promise<void> {
+  const { error } = await supabase.storage.from(BUCKET).remove([attachment.path]);
+  if (error) throw error;
+}
+
+export function isAttachment(value: unknown): value is Attachment {
+  if (typeof value !== 'object' || value === null) return false;
+  const a = value as Record<string, unknown>;
+  return ['path', 'key', 'iv', 'sha256', 'name', 'mime'].every(k => typeof a[k] === 'string') && typeof a.size === 'number';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -1,11 +1,20 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { unlockVault, restoreVault, lockVault } from '@/lib/vault';
+import { sweepPlaintexts } from '@/lib/plaintexts';
+import { sweepCachedConversations } from '@/lib/message-cache';
+
+// How often expired messages are deleted from this device
+const SWEEP_INTERVAL_MS = 60 * 1000;
 
 interface AuthContextType {
   session: Session | null;
   user: User | null;
   loading: boolean;
+  // Non-extractable key protecting local private keys; null while locked
+  vaultKey: CryptoKey | null;
+  unlock: (password: string, userId?: string) => Promise<CryptoKey>;
   signOut: () => Promise<void>;
 }
 
@@ -13,14 +22,22 @@ const AuthContext = createContext<AuthContextType>({
   session: null,
   user: null,
   loading: true,
+  vaultKey: null,
+  unlock: async () => { throw new Error('No AuthProvider'); },
   signOut: async () => {},
 });
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [vaultLoading, setVaultLoading] = useState(true);
+  const userId = session?.user.id ?? null;
 
   useEffect(() => {
+    // Passwords were once persisted here; make sure none linger
+    localStorage.removeItem('_kp');
+
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       setSession(session);
       setLoading(false);
@@ -34,12 +51,48 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (loading) return;
+    if (!userId) {
+      setVaultKey(null);
+      setVaultLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setVaultLoading(true);
+    restoreVault(userId)
+      .then(key => { if (!cancelled && key) setVaultKey(key); })
+      .catch(() => {})
+      .finally(() => { if (!cancelled) setVaultLoading(false); });
+    return () => { cancelled = true; };
+  }, [userId, loading]);
+
+  useEffect(() => {
+    if (!userId || !vaultKey) return;
+    const sweep = () => Promise.all([sweepPlaintexts(userId), sweepCachedConversations(userId, vaultKey)])
+      .catch(err => console.error('Failed to sweep expired messages', err));
+    sweep();
+    const interval = setInterval(sweep, SWEEP_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [userId, vaultKey]);
+
+  const unlock = async (password: string, id = userId) => {
+    if (!id) throw new Error('Not signed in');
+    const key = await unlockVault(id, password);
+    setVaultKey(key);
+    return key;
+  };
+
   const signOut = async () => {
+    // Stored plaintexts stay, sealed under the vault key: the same password
+    // opens them again, and they are the only copy of ratchet messages
+    if (userId) await lockVault(userId);
+    setVaultKey(null);
     await supabase.auth.signOut();
   };
 
   return (
-    <AuthContext.Provider value={{ session, user: session?.user ?? null, loading, signOut }}>
+    <AuthContext.Provider value={{ session, user: session?.user ?? null, loading: loading || vaultLoading, vaultKey, unlock, signOut }}>
       {children}
     </AuthContext.Provider>
   );
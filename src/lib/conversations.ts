@@ -0,0 +1,51 @@
+// Conversation list summaries: latest message and unread count per friend.
+
+import { supabase } from '@/integrations/supabase/client';
+import { DecryptedMessage, MessageRow, decryptRow } from './messages';
+import { readTimer, timerLabel } from './disappearing';
+
+export interface ConversationSummary {
+  lastMessage: DecryptedMessage;
+  unreadCount: number;
+}
+
+// Summaries keyed by friend id, with each latest message decrypted
+export async function fetchConversations(userId: string, pk: CryptoKey | null): Promise<Map<string, ConversationSummary>> {
+  const { data, error } = await supabase.rpc('get_conversations');
+  if (error) throw error;
+
+  const entries = await Promise.all(data.map(async row => {
+    const lastMessage = await decryptRow(userId, row.last_message as unknown as MessageRow, pk);
+    return [row.friend_id, { lastMessage, unreadCount: row.unread_count }] as const;
+  }));
+  return new Map(entries);
+}
+
+// One-line preview of a message for the conversation list
+export function previewText(msg: DecryptedMessage): string {
+  if (msg.deleted) return '🚫 Message deleted';
+  const { envelope } = msg;
+  if (envelope.type === 'edit') return `✏️ ${envelope.body}`;
+  if (envelope.type === 'reaction') return envelope.body ? `Reacted ${envelope.body}` : 'Removed a reaction';
+  const timer = readTimer(envelope);
+  if (timer !== null) return timer ? `⏱ Disappearing messages: ${timerLabel(timer)}` : '⏱ Disappearing messages off';
+  const attachment = envelope.meta.attachment;
+  if (attachment) {
+    const label = attachment.mime.startsWith('image/') ? '📷 Photo' : `📎 ${attachment.name}`;
+    return envelope.body ? `${label} · ${envelope.body}` : label;
+  }
+  return envelope.body;
+}
+
+// Time today, weekday within the last week, otherwise the date
+export function formatConversationTime(dateStr: string): string {
+  const date = new Date(dateStr);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  if (now.getTime() - date.getTime() < 6 * 24 * 60 * 60 * 1000) {
+    return date.toLocaleDateString([], { weekday: 'short' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
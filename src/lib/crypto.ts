@@ -1,18 +1,19 @@
 // E2E Encryption utilities using Web Crypto API
 
-const DB_NAME = 'vaultchat-keys';
-const STORE_NAME = 'keypairs';
-
-// IndexedDB helpers
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
-    request.onupgradeneeded = () => {
-      request.result.createObjectStore(STORE_NAME);
-    };
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
+import { STORES, idbGet, idbPut } from './idb';
+
+// Base64 helpers (chunked so large buffers don't overflow the call stack)
+export function toBase64(buf: ArrayBuffer | Uint8Array): string {
+  const bytes = buf instanceof Uint8Array ? buf : new Uint8Array(buf);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
 }
 
 // Generate RSA-OAEP key pair
@@ -49,104 +50,95 @@ export async function importPublicKey(base64: string): Promise<CryptoKey> {
   );
 }
 
-// Encrypt private key with password-derived key
-async function encryptPrivateKey(privateKey: CryptoKey, password: string): Promise<{ encrypted: ArrayBuffer; salt: Uint8Array; iv: Uint8Array }> {
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-  const iv = crypto.getRandomValues(new Uint8Array(12));
+// Derive a non-extractable AES-GCM key from a password (the vault key, or a
+// backup wrapping key). Once derived it can be persisted as a CryptoKey
+// without exposing the password.
+export async function derivePasswordKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveKey']);
-  const derivedKey = await crypto.subtle.deriveKey(
+  return crypto.subtle.deriveKey(
     { name: 'PBKDF2', salt: salt as BufferSource, iterations: 100000, hash: 'SHA-256' },
     keyMaterial,
     { name: 'AES-GCM', length: 256 },
     false,
-    ['encrypt']
+    ['encrypt', 'decrypt']
   );
-  const exported = await crypto.subtle.exportKey('pkcs8', privateKey);
-  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, derivedKey, exported);
-  return { encrypted, salt, iv };
 }
 
-// Decrypt private key with password
-async function decryptPrivateKey(encrypted: ArrayBuffer, salt: Uint8Array, iv: Uint8Array, password: string): Promise<CryptoKey> {
-  const encoder = new TextEncoder();
-  const keyMaterial = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveKey']);
-  const derivedKey = await crypto.subtle.deriveKey(
-    { name: 'PBKDF2', salt: salt as BufferSource, iterations: 100000, hash: 'SHA-256' },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['decrypt']
-  );
-  const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: iv as BufferSource }, derivedKey, encrypted);
-  return crypto.subtle.importKey('pkcs8', decrypted, { name: 'RSA-OAEP', hash: 'SHA-256' }, false, ['decrypt']);
+// Stored as { encrypted, iv }; records written before the vault also carry
+// the PBKDF2 salt they were derived with, which the vault adopts.
+export interface StoredPrivateKey {
+  encrypted: ArrayBuffer;
+  iv: Uint8Array;
+  salt?: Uint8Array;
 }
 
-// Store encrypted private key in IndexedDB
-export async function storePrivateKey(userId: string, privateKey: CryptoKey, password: string): Promise<void> {
-  const { encrypted, salt, iv } = await encryptPrivateKey(privateKey, password);
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  tx.objectStore(STORE_NAME).put({ encrypted, salt, iv }, userId);
-  return new Promise((resolve, reject) => {
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+// Store vault-encrypted private key in IndexedDB
+export async function storePrivateKey(userId: string, privateKey: CryptoKey, vaultKey: CryptoKey): Promise<void> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const exported = await crypto.subtle.exportKey('pkcs8', privateKey);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, vaultKey, exported);
+  await idbPut(STORES.keypairs, userId, { encrypted, iv });
 }
 
-// Retrieve and decrypt private key from IndexedDB
-export async function retrievePrivateKey(userId: string, password: string): Promise<CryptoKey | null> {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readonly');
-  const request = tx.objectStore(STORE_NAME).get(userId);
-  const data = await new Promise<any>((resolve, reject) => {
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
+// Decrypt the stored private key to pkcs8 bytes (used for backups)
+export async function exportStoredPrivateKey(userId: string, vaultKey: CryptoKey): Promise<ArrayBuffer | null> {
+  const data = await idbGet<StoredPrivateKey>(STORES.keypairs, userId);
   if (!data) return null;
-  return decryptPrivateKey(data.encrypted, data.salt, data.iv, password);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: data.iv as BufferSource }, vaultKey, data.encrypted);
+}
+
+// Retrieve and decrypt private key from IndexedDB
+export async function retrievePrivateKey(userId: string, vaultKey: CryptoKey): Promise<CryptoKey | null> {
+  const pkcs8 = await exportStoredPrivateKey(userId, vaultKey);
+  if (!pkcs8) return null;
+  return crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSA-OAEP', hash: 'SHA-256' }, false, ['decrypt']);
 }
 
 // Check if private key exists in IndexedDB
 export async function hasPrivateKey(userId: string): Promise<boolean> {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readonly');
-  const request = tx.objectStore(STORE_NAME).get(userId);
-  return new Promise((resolve, reject) => {
-    request.onsuccess = () => resolve(!!request.result);
-    request.onerror = () => reject(request.error);
-  });
+  return !!(await idbGet(STORES.keypairs, userId));
 }
 
-// Encrypt a message for multiple recipients (e.g., recipient and self)
-export async function encryptMessage(plaintext: string, publicKeys: { [id: string]: CryptoKey }): Promise<{
-  ciphertext: string;
-  encryptedKeys: { [id: string]: string };
-  iv: string;
-}> {
-  // Generate random AES key
+// Encrypt plaintext under a fresh AES-GCM content key. The raw key is returned
+// so the caller can wrap it for each recipient (RSA-OAEP or ratchet session).
+export async function encryptContent(plaintext: string): Promise<{ ciphertext: string; iv: string; rawKey: ArrayBuffer }> {
   const aesKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
   const ivArr = crypto.getRandomValues(new Uint8Array(12));
-
-  // Encrypt message with AES
   const encoded = new TextEncoder().encode(plaintext);
   const ciphertextBuf = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: ivArr as BufferSource }, aesKey, encoded);
+  const rawKey = await crypto.subtle.exportKey('raw', aesKey);
+  return { ciphertext: toBase64(ciphertextBuf), iv: toBase64(ivArr), rawKey };
+}
 
-  // Export AES key once
-  const exportedAesKey = await crypto.subtle.exportKey('raw', aesKey);
+// Decrypt content encrypted by encryptContent with an unwrapped raw key
+export async function decryptContent(ciphertext: string, iv: string, rawKey: ArrayBuffer): Promise<string> {
+  const aesKey = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM', length: 256 }, false, ['decrypt']);
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) as BufferSource },
+    aesKey,
+    fromBase64(ciphertext) as BufferSource
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
+// Encrypt a message for multiple recipients (e.g., recipient and self).
+// Legacy RSA format; new messages are sealed per device by encryptSessionMessage.
+export async function encryptMessage(plaintext: string, publicKeys: { [id: string]: CryptoKey }): Promise<{
+  ciphertext: string;
+  encryptedKeys: { [id: string]: string };
+  iv: string;
+}> {
+  const { ciphertext, iv, rawKey } = await encryptContent(plaintext);
 
   // Encrypt the SAME AES key for each recipient's RSA public key
   const encryptedKeys: { [id: string]: string } = {};
   for (const [id, key] of Object.entries(publicKeys)) {
-    const encryptedKeyBuf = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, key, exportedAesKey);
-    encryptedKeys[id] = btoa(String.fromCharCode(...new Uint8Array(encryptedKeyBuf)));
+    const encryptedKeyBuf = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, key, rawKey);
+    encryptedKeys[id] = toBase64(encryptedKeyBuf);
   }
 
-  return {
-    ciphertext: btoa(String.fromCharCode(...new Uint8Array(ciphertextBuf))),
-    encryptedKeys: encryptedKeys,
-    iv: btoa(String.fromCharCode(...new Uint8Array(ivArr))),
-  };
+  return { ciphertext, encryptedKeys, iv };
 }
 
 // Decrypt a message
@@ -161,22 +153,16 @@ export async function decryptMessage(
   let encryptedKeyB64 = '';
   try {
     const parsedKeys = JSON.parse(encryptedKeyData);
-    encryptedKeyB64 = parsedKeys[myUserId] || Object.values(parsedKeys)[0] as string;
+    encryptedKeyB64 = parsedKeys[myUserId];
   } catch {
     // Legacy format (just a b64 string)
     encryptedKeyB64 = encryptedKeyData;
   }
+  if (!encryptedKeyB64) throw new Error('Message was not encrypted for this user');
 
-  // 2. Decode all base64
-  const ciphertextBuf = Uint8Array.from(atob(ciphertext), c => c.charCodeAt(0));
-  const encryptedKeyBuf = Uint8Array.from(atob(encryptedKeyB64), c => c.charCodeAt(0));
-  const ivBuf = Uint8Array.from(atob(iv), c => c.charCodeAt(0));
+  // 2. Decrypt AES key with private RSA key
+  const aesKeyBuf = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, fromBase64(encryptedKeyB64) as BufferSource);
 
-  // 3. Decrypt AES key with private RSA key
-  const aesKeyBuf = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, encryptedKeyBuf);
-  const aesKey = await crypto.subtle.importKey('raw', aesKeyBuf, { name: 'AES-GCM', length: 256 }, false, ['decrypt']);
-
-  // 4. Decrypt message
-  const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: ivBuf as BufferSource }, aesKey, ciphertextBuf);
-  return new TextDecoder().decode(decrypted);
+  // 3. Decrypt message
+  return decryptContent(ciphertext, iv, aesKeyBuf);
 }
@@ -0,0 +1,51 @@
+// Disappearing message timers. Either party can change a conversation's timer
+// by sending an encrypted system message; the latest one wins. The timer is
+// also remembered locally for when that message isn't loaded.
+
+import { STORES, idbGet, idbPut } from './idb';
+import { Envelope, createEnvelope } from './envelope';
+import type { DecryptedMessage } from './messages';
+
+export const TIMER_OPTIONS = [
+  { seconds: 0, label: 'Off' },
+  { seconds: 30, label: '30 seconds' },
+  { seconds: 5 * 60, label: '5 minutes' },
+  { seconds: 60 * 60, label: '1 hour' },
+  { seconds: 24 * 60 * 60, label: '1 day' },
+  { seconds: 7 * 24 * 60 * 60, label: '7 days' },
+];
+
+export function timerLabel(seconds: number): string {
+  return TIMER_OPTIONS.find(o => o.seconds === seconds)?.label ?? `${seconds} seconds`;
+}
+
+export function timerEnvelope(seconds: number): Envelope {
+  return createEnvelope('system', '', { action: 'timer', seconds });
+}
+
+// The timer a system message sets, or null for any other message
+export function readTimer(envelope: Envelope): number | null {
+  if (envelope.type !== 'system' || envelope.meta.action !== 'timer') return null;
+  const seconds = envelope.meta.seconds;
+  return TIMER_OPTIONS.some(o => o.seconds === seconds) ? (seconds as number) : null;
+}
+
+// The most recent timer change among loaded messages (oldest first)
+export function latestTimer(messages: DecryptedMessage[]): number | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].deleted) continue;
+    const seconds = readTimer(messages[i].envelope);
+    if (seconds !== null) return seconds;
+  }
+  return null;
+}
+
+const timerKey = (userId: string, friendId: string) => `${userId}:${friendId}`;
+
+export async function loadTimer(userId: string, friendId: string): Promise<number> {
+  return (await idbGet<number>(STORES.timers, timerKey(userId, friendId))) ?? 0;
+}
+
+export async function saveTimer(userId: string, friendId: string, seconds: number): Promise<void> {
+  await idbPut(STORES.timers, timerKey(userId, friendId), seconds);
+}
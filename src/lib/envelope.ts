@@ -0,0 +1,87 @@
+// Versioned plaintext envelope carried inside every encrypted message. The
+// messages.version column says how a row's plaintext and keys are encoded, so
+// new message kinds only need a new envelope type.
+
+import { Attachment, isAttachment } from './attachments';
+
+export const ENVELOPE_VERSION = 1;
+
+export type EnvelopeType = 'text' | 'attachment' | 'reaction' | 'edit' | 'delete' | 'system';
+
+const ENVELOPE_TYPES: EnvelopeType[] = ['text', 'attachment', 'reaction', 'edit', 'delete', 'system'];
+const TARGETED_TYPES: EnvelopeType[] = ['reaction', 'edit', 'delete'];
+
+// The message a reply quotes. The excerpt travels with the reply so the quote
+// renders even when the original isn't loaded.
+export interface ReplyRef {
+  id: string;
+  sender_id: string;
+  excerpt: string;
+}
+
+export interface EnvelopeMeta {
+  attachment?: Attachment;
+  target?: string; // id of the message a reaction, edit or delete refers to
+  reply?: ReplyRef;
+  [key: string]: unknown;
+}
+
+export interface Envelope {
+  v: number;
+  type: EnvelopeType;
+  body: string; // message text, attachment caption, emoji...
+  meta: EnvelopeMeta;
+}
+
+export function createEnvelope(type: EnvelopeType, body: string, meta: EnvelopeMeta = {}): Envelope {
+  return { v: ENVELOPE_VERSION, type, body, meta };
+}
+
+// Reactions, edits, deletes and timer changes alter or annotate other messages
+// rather than being new ones, so their rows never count as unread
+export function isSilentEnvelope(envelope: Envelope): boolean {
+  return envelope.type !== 'text' && envelope.type !== 'attachment';
+}
+
+export function encodeEnvelope(envelope: Envelope): string {
+  return JSON.stringify(envelope);
+}
+
+function isReplyRef(value: unknown): value is ReplyRef {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Record<string, unknown>;
+  return typeof r.id === 'string' && typeof r.sender_id === 'string' && typeof r.excerpt === 'string';
+}
+
+// Version 0 plaintexts: bare text, or the attachment JSON sent before envelopes
+function decodeLegacy(plaintext: string): Envelope {
+  if (plaintext.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(plaintext);
+      if (isAttachment(parsed.attachment)) {
+        return createEnvelope('attachment', typeof parsed.text === 'string' ? parsed.text : '', { attachment: parsed.attachment });
+      }
+    } catch {
+      // Ordinary text that happens to start with a brace
+    }
+  }
+  return createEnvelope('text', plaintext);
+}
+
+// Decode a row's plaintext according to its messages.version. Throws for
+// envelopes newer than this client understands.
+export function decodeEnvelope(plaintext: string, rowVersion: number): Envelope {
+  if (rowVersion === 0) return decodeLegacy(plaintext);
+  if (rowVersion > ENVELOPE_VERSION) throw new Error('Unsupported message version');
+
+  const parsed = JSON.parse(plaintext);
+  if (typeof parsed !== 'object' || parsed === null || typeof parsed.body !== 'string' || !ENVELOPE_TYPES.includes(parsed.type)) {
+    throw new Error('Malformed message envelope');
+  }
+  const meta: EnvelopeMeta = typeof parsed.meta === 'object' && parsed.meta !== null ? parsed.meta : {};
+  if (parsed.type === 'attachment' && !isAttachment(meta.attachment)) throw new Error('Malformed attachment');
+  if (TARGETED_TYPES.includes(parsed.type) && typeof meta.target !== 'string') throw new Error('Missing target message');
+  // A malformed quote shouldn't hide the reply itself
+  if (meta.reply !== undefined && !isReplyRef(meta.reply)) delete meta.reply;
+  return { v: parsed.v, type: parsed.type, body: parsed.body, meta };
+}
@@ -0,0 +1,153 @@
+// Group chats: membership and roles. Group messages are ordinary message rows
+// with group_id set, sealed for the devices of every current member. Each
+// join or leave starts a new epoch, and the server only accepts messages
+// sealed under the current one.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type GroupRole = 'admin' | 'member';
+
+export interface Group {
+  id: string;
+  name: string;
+  epoch: number;
+}
+
+export interface GroupMember {
+  user_id: string;
+  username: string;
+  role: GroupRole;
+  joined_at: string;
+}
+
+// Groups the user belongs to, by name
+export async function fetchMyGroups(userId: string): Promise<Group[]> {
+  const { data, error } = await supabase
+    .from('group_members')
+    .select('groups(id, name, epoch)')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return data
+    .map(row => row.groups)
+    .filter((g): g is Group => !!g)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// A group and its members as of one epoch. Messages are sealed for exactly
+// these members under exactly this epoch.
+export interface GroupSnapshot {
+  group: Group;
+  members: GroupMember[];
+}
+
+// The group and its members, or null if the user isn't a member. Both are read
+// in one query, so the member list always belongs to the returned epoch.
+export async function fetchGroup(groupId: string): Promise<GroupSnapshot | null> {
+  const { data, error } = await supabase
+    .from('groups')
+    .select('id, name, epoch, group_members(user_id, role, joined_at)')
+    .eq('id', groupId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const { group_members: rows, ...group } = data;
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('user_id, username')
+    .in('user_id', rows.map(r => r.user_id));
+  const usernames = new Map(profiles?.map(p => [p.user_id, p.username]) ?? []);
+
+  const members = rows
+    .map(r => ({ ...r, role: r.role as GroupRole, username: usernames.get(r.user_id) ?? 'unknown' }))
+    .sort((a, b) => a.joined_at.localeCompare(b.joined_at));
+  return { group, members };
+}
+
+// Accepted friends, who are the people the user can add to a group
+export async function fetchFriends(userId: string): Promise<{ user_id: string; username: string }[]> {
+  const { data: requests, error } = await supabase
+    .from('friend_requests')
+    .select('sender_id, receiver_id')
+    .eq('status', 'accepted')
+    .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`);
+  if (error) throw error;
+
+  const friendIds = requests.map(r => (r.sender_id === userId ? r.receiver_id : r.sender_id));
+  if (friendIds.length === 0) return [];
+  const { data: profiles } = await supabase.from('profiles').select('user_id, username').in('user_id', friendIds);
+  return (profiles ?? []).sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export async function createGroup(name: string, memberIds: string[]): Promise<string> {
+  const { data, error } = await supabase.rpc('create_group', { group_name: name, member_ids: memberIds });
+  if (error) throw error;
+  return data;
+}
+
+export async function addGroupMember(groupId: string, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('add_group_member', { target_group: groupId, new_member: userId });
+  if (error) throw error;
+}
+
+// Kicks a member, or leaves the group when userId is the caller
+export async function removeGroupMember(groupId: string, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('remove_group_member', { target_group: groupId, member: userId });
+  if (error) throw error;
+}
+
+export async function setGroupMemberRole(groupId: string, userId: string, role: GroupRole): Promise<void> {
+  const { error } = await supabase.rpc('set_group_member_role', { target_group: groupId, member: userId, new_role: role });
+  if (error) throw error;
+}
+
+// The server refused a message because membership changed after it was sealed
+export function isStaleEpoch(err: unknown): boolean {
+  return typeof err === 'object' && err !== null && (err as { code?: string }).code === '40001';
+}
+
+export type GroupEventAction = 'created' | 'added' | 'removed' | 'left' | 'promoted' | 'demoted';
+
+// A membership change, recorded by the server
+export interface GroupEvent {
+  id: string;
+  action: GroupEventAction;
+  actor_id: string | null;
+  target_id: string | null;
+  created_at: string;
+  usernames: Record<string, string>; // of actor and target
+}
+
+export async function fetchGroupEvents(groupId: string): Promise<GroupEvent[]> {
+  const { data, error } = await supabase
+    .from('group_events')
+    .select('id, action, actor_id, target_id, created_at')
+    .eq('group_id', groupId)
+    .order('created_at');
+  if (error) throw error;
+
+  const userIds = [...new Set(data.flatMap(e => [e.actor_id, e.target_id]).filter((id): id is string => !!id))];
+  const { data: profiles } = userIds.length
+    ? await supabase.from('profiles').select('user_id, username').in('user_id', userIds)
+    : { data: [] };
+  const usernames = Object.fromEntries((profiles ?? []).map(p => [p.user_id, p.username]));
+  return data.map(e => ({ ...e, action: e.action as GroupEventAction, usernames }));
+}
+
+// e.g. "@alice removed @bob", from the viewer's point of view
+export function describeGroupEvent(event: GroupEvent, myId: string): string {
+  const name = (userId: string | null, subject: boolean) => {
+    if (userId === myId) return subject ? 'You' : 'you';
+    return userId && event.usernames[userId] ? `@${event.usernames[userId]}` : subject ? 'Someone' : 'someone';
+  };
+  const actor = name(event.actor_id, true);
+  const target = name(event.target_id, false);
+  switch (event.action) {
+    case 'created': return `${actor} created the group`;
+    case 'added': return `${actor} added ${target}`;
+    case 'removed': return `${actor} removed ${target}`;
+    case 'left': return `${name(event.target_id, true)} left`;
+    case 'promoted': return `${actor} made ${target} an admin`;
+    case 'demoted': return `${actor} removed ${target} as admin`;
+  }
+}
@@ -0,0 +1,97 @@
+// IndexedDB helpers shared by the key store, ratchet sessions and local caches
+
+const DB_NAME = 'vaultchat-keys';
+const DB_VERSION = 9;
+
+export const STORES = {
+  keypairs: 'keypairs',
+  identity: 'identity',
+  sessions: 'sessions',
+  plaintexts: 'plaintexts',
+  vault: 'vault',
+  verified: 'verified',
+  pinnedKeys: 'pinnedKeys',
+  messageCache: 'messageCache',
+  outbox: 'outbox',
+  hiddenMessages: 'hiddenMessages',
+  timers: 'timers',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and upgrade) the database. New stores only need to be added to STORES
+// and DB_VERSION bumped; missing stores are created on upgrade.
+export function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of Object.values(STORES)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDB();
+  const request = db.transaction(store, 'readonly').objectStore(store).get(key);
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDB();
+  const request = db.transaction(store, 'readonly').objectStore(store).getAll();
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function idbPut(store: StoreName, key: IDBValidKey, value: unknown): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value, key);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(key);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// Every key and value in a store, in key order
+export async function idbEntries<T>(store: StoreName): Promise<[IDBValidKey, T][]> {
+  const db = await openDB();
+  const request = db.transaction(store, 'readonly').objectStore(store).openCursor();
+  const entries: [IDBValidKey, T][] = [];
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(entries);
+      entries.push([cursor.key, cursor.value as T]);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
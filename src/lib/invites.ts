@@ -0,0 +1,121 @@
+// Invite links. A token lets up to max_uses people become the creator's
+// friend without a friend request; tokens are only readable by their creator,
+// so invitees preview and redeem them through server functions.
+
+import { supabase } from '@/integrations/supabase/client';
+
+const INVALID_INVITE = 'This invite link is invalid or has already been used.';
+
+// The server's errors are written for the invitee; a malformed token only
+// gets a generic uuid parse error
+function inviteError(error: { code?: string; message: string }): Error {
+  return new Error(error.code === '22P02' ? INVALID_INVITE : error.message);
+}
+
+// The creator's fingerprint can ride along in the fragment (never sent to the
+// server), so scanning an invite in person with the in-app scanner also
+// verifies the creator's keys. A fingerprint in a link that was merely opened
+// proves nothing, since anyone can write one.
+export function inviteLink(token: string, fingerprint?: string): string {
+  const link = `${window.location.origin}/invite/${token}`;
+  return fingerprint ? `${link}#fp=${encodeURIComponent(fingerprint)}` : link;
+}
+
+// Fingerprint from the fragment of an invite link, if it has one
+export function inviteFingerprint(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get('fp');
+}
+
+// Router state for an invite opened by the in-app scanner
+export interface ScannedInviteState {
+  fingerprint: string | null;
+}
+
+// In-app path for a scanned invite link, or null if the text isn't one. The
+// fragment is dropped; its fingerprint travels in ScannedInviteState instead.
+export function invitePath(scanned: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(scanned);
+  } catch {
+    return null;
+  }
+  const match = url.pathname.match(/^\/invite\/([0-9a-f-]{36})\/?$/i);
+  return match ? `/invite/${match[1]}` : null;
+}
+
+export interface Invite {
+  token: string;
+  created_at: string;
+  expires_at: string;
+  max_uses: number | null;
+  use_count: number;
+  // Usernames of everyone who redeemed it, oldest first
+  redeemed_by: string[];
+}
+
+export type InviteStatus = 'unused' | 'used' | 'used up' | 'expired';
+
+// maxUses null means the link works until it expires or is revoked
+export async function createInvite(
+  userId: string,
+  { expiresInMs = 7 * 24 * 60 * 60 * 1000, maxUses = 1 }: { expiresInMs?: number; maxUses?: number | null } = {},
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('invite_tokens')
+    .insert({ created_by: userId, expires_at: new Date(Date.now() + expiresInMs).toISOString(), max_uses: maxUses })
+    .select('token')
+    .single();
+  if (error) throw error;
+  return data.token;
+}
+
+// The user's own invites, newest first
+export async function fetchMyInvites(userId: string): Promise<Invite[]> {
+  const { data, error } = await supabase
+    .from('invite_tokens')
+    .select('token, created_at, expires_at, max_uses, use_count, invite_redemptions(user_id, redeemed_at)')
+    .eq('created_by', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const userIds = [...new Set(data.flatMap(t => t.invite_redemptions.map(r => r.user_id)))];
+  const { data: profiles } = userIds.length
+    ? await supabase.from('profiles').select('user_id, username').in('user_id', userIds)
+    : { data: [] };
+  const usernames = new Map((profiles ?? []).map(p => [p.user_id, p.username]));
+
+  return data.map(({ invite_redemptions, ...t }) => ({
+    ...t,
+    redeemed_by: [...invite_redemptions]
+      .sort((a, b) => a.redeemed_at.localeCompare(b.redeemed_at))
+      .map(r => usernames.get(r.user_id) ?? 'unknown'),
+  }));
+}
+
+export async function revokeInvite(token: string): Promise<void> {
+  const { error } = await supabase.from('invite_tokens').delete().eq('token', token);
+  if (error) throw error;
+}
+
+// A link that has been used but still has uses left is 'used'
+export function inviteStatus(invite: Invite, now = Date.now()): InviteStatus {
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'used up';
+  if (new Date(invite.expires_at).getTime() < now) return 'expired';
+  return invite.use_count > 0 ? 'used' : 'unused';
+}
+
+// Who an invite is from. Throws with a readable reason if it can't be used.
+export async function previewInvite(token: string): Promise<{ inviterId: string; inviterUsername: string }> {
+  const { data, error } = await supabase.rpc('preview_invite', { invite_token: token });
+  if (error) throw inviteError(error);
+  if (!data.length) throw new Error(INVALID_INVITE);
+  return { inviterId: data[0].inviter_id, inviterUsername: data[0].inviter_username };
+}
+
+// Use up the token and become friends with its creator, whose id is returned
+export async function redeemInvite(token: string): Promise<string> {
+  const { data, error } = await supabase.rpc('redeem_invite', { invite_token: token });
+  if (error) throw inviteError(error);
+  return data;
+}
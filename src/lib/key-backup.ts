@@ -0,0 +1,75 @@
+// Optional server-side backup of the legacy RSA private key. The pkcs8 bytes
+// are wrapped client-side with a key derived from a recovery passphrase that
+// is never sent to the server. Older backups may instead be wrapped with the
+// account password; they can still be restored but no longer created.
+//
+// Device identity keys and ratchet sessions are not backed up, so a restore
+// only recovers messages from before per-device encryption.
+
+import { supabase } from '@/integrations/supabase/client';
+import { toBase64, fromBase64, derivePasswordKey, exportStoredPrivateKey, storePrivateKey } from './crypto';
+
+export type BackupKind = 'password' | 'recovery';
+
+export const MIN_RECOVERY_LENGTH = 10;
+
+export interface KeyBackup {
+  kind: BackupKind;
+  wrapped_key: string;
+  salt: string;
+  iv: string;
+  updated_at: string;
+}
+
+export async function fetchKeyBackup(userId: string): Promise<KeyBackup | null> {
+  const { data } = await supabase
+    .from('key_backups')
+    .select('kind, wrapped_key, salt, iv, updated_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data ? { ...data, kind: data.kind as BackupKind } : null;
+}
+
+// Wrap the locally stored private key with a recovery passphrase and upload
+// it, replacing any previous backup
+export async function createKeyBackup(userId: string, vaultKey: CryptoKey, passphrase: string): Promise<void> {
+  if (passphrase.length < MIN_RECOVERY_LENGTH) throw new Error(`Recovery passphrase must be at least ${MIN_RECOVERY_LENGTH} characters`);
+  const pkcs8 = await exportStoredPrivateKey(userId, vaultKey);
+  if (!pkcs8) throw new Error('No private key on this device to back up');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await derivePasswordKey(passphrase, salt);
+  const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, wrappingKey, pkcs8);
+
+  const { error } = await supabase.from('key_backups').upsert({
+    user_id: userId,
+    kind: 'recovery',
+    wrapped_key: toBase64(wrapped),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+  });
+  if (error) throw error;
+}
+
+// Unwrap a backup and store the key on this device under the vault key
+export async function restoreKeyBackup(userId: string, backup: KeyBackup, secret: string, vaultKey: CryptoKey): Promise<void> {
+  const wrappingKey = await derivePasswordKey(secret, fromBase64(backup.salt));
+  let pkcs8: ArrayBuffer;
+  try {
+    pkcs8 = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(backup.iv) as BufferSource },
+      wrappingKey,
+      fromBase64(backup.wrapped_key) as BufferSource
+    );
+  } catch {
+    throw new Error(backup.kind === 'password' ? 'Backup was made with a different password' : 'Incorrect recovery passphrase');
+  }
+  const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSA-OAEP', hash: 'SHA-256' }, true, ['decrypt']);
+  await storePrivateKey(userId, privateKey, vaultKey);
+}
+
+export async function deleteKeyBackup(userId: string): Promise<void> {
+  const { error } = await supabase.from('key_backups').delete().eq('user_id', userId);
+  if (error) throw error;
+}
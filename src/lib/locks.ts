@@ -0,0 +1,13 @@
+// In-page mutual exclusion for IndexedDB records that are read, modified and
+// written back. Keys are namespaced by the caller, e.g. "session:<address>".
+
+const locks = new Map<string, Promise<unknown>>();
+
+// Run fn once every earlier call for the same key has settled
+export function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(fn);
+  locks.set(key, next);
+  next.finally(() => { if (locks.get(key) === next) locks.delete(key); }).catch(() => {});
+  return next;
+}
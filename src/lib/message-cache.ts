@@ -0,0 +1,99 @@
+// Local copy of decrypted conversations so a chat opens instantly and can be
+// read offline. Each conversation is stored as one AES-GCM blob under the
+// vault key, so the cache can't be read while the vault is locked. That is
+// not true of everything at rest: device identity and prekey private keys are
+// non-extractable CryptoKeys but not wrapped by the vault key, and ratchet
+// sessions keep raw chain keys, so anyone with this browser profile can still
+// decrypt messages that arrive later. Disappearing messages are dropped once
+// they expire, whether or not the chat is opened. Also holds the ids of
+// messages the user deleted for themselves only.
+
+import { STORES, idbGet, idbPut, idbEntries } from './idb';
+import type { DecryptedMessage } from './messages';
+
+// Only the most recent messages are kept; older ones are paged in from the server
+const MAX_CACHED_MESSAGES = 500;
+
+export interface CachedConversation {
+  friendUsername: string | null;
+  messages: DecryptedMessage[]; // oldest first
+  hasMore: boolean; // older messages exist on the server
+}
+
+interface StoredConversation {
+  encrypted: ArrayBuffer;
+  iv: Uint8Array;
+  // Earliest expires_at (epoch ms) among the cached messages, so the sweep
+  // only decrypts conversations that have something to drop
+  nextExpiry?: number | null;
+}
+
+const conversationKey = (userId: string, friendId: string) => `${userId}:${friendId}`;
+
+function unexpired(messages: DecryptedMessage[], now = Date.now()): DecryptedMessage[] {
+  return messages.filter(m => !m.expires_at || new Date(m.expires_at).getTime() > now);
+}
+
+async function decryptConversation(stored: StoredConversation, vaultKey: CryptoKey): Promise<CachedConversation | null> {
+  try {
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv as BufferSource }, vaultKey, stored.encrypted);
+    return JSON.parse(new TextDecoder().decode(decrypted));
+  } catch {
+    // Written under a previous vault key
+    return null;
+  }
+}
+
+export async function loadHiddenIds(userId: string, friendId: string): Promise<string[]> {
+  return (await idbGet<string[]>(STORES.hiddenMessages, conversationKey(userId, friendId))) ?? [];
+}
+
+// "Delete for me": the message stays on the server but is never shown here
+export async function hideMessage(userId: string, friendId: string, messageId: string): Promise<void> {
+  const hidden = await loadHiddenIds(userId, friendId);
+  if (!hidden.includes(messageId)) await idbPut(STORES.hiddenMessages, conversationKey(userId, friendId), [...hidden, messageId]);
+}
+
+export async function loadCachedConversation(userId: string, friendId: string, vaultKey: CryptoKey): Promise<CachedConversation | null> {
+  const stored = await idbGet<StoredConversation>(STORES.messageCache, conversationKey(userId, friendId));
+  if (!stored) return null;
+  const conversation = await decryptConversation(stored, vaultKey);
+  return conversation && { ...conversation, messages: unexpired(conversation.messages) };
+}
+
+export async function saveCachedConversation(
+  userId: string,
+  friendId: string,
+  vaultKey: CryptoKey,
+  conversation: CachedConversation
+): Promise<void> {
+  const messages = unexpired(conversation.messages);
+  const truncated = messages.length > MAX_CACHED_MESSAGES;
+  const record: CachedConversation = {
+    ...conversation,
+    messages: messages.slice(-MAX_CACHED_MESSAGES),
+    hasMore: conversation.hasMore || truncated,
+  };
+  const expiries = record.messages.filter(m => m.expires_at).map(m => new Date(m.expires_at!).getTime());
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource },
+    vaultKey,
+    new TextEncoder().encode(JSON.stringify(record))
+  );
+  const stored: StoredConversation = { encrypted, iv, nextExpiry: expiries.length ? Math.min(...expiries) : null };
+  await idbPut(STORES.messageCache, conversationKey(userId, friendId), stored);
+}
+
+// Rewrite every cached conversation of userId that holds expired messages.
+// Records from before nextExpiry was kept are checked once and rewritten.
+export async function sweepCachedConversations(userId: string, vaultKey: CryptoKey): Promise<void> {
+  const prefix = `${userId}:`;
+  const now = Date.now();
+  for (const [key, stored] of await idbEntries<StoredConversation>(STORES.messageCache)) {
+    if (typeof key !== 'string' || !key.startsWith(prefix)) continue;
+    if (stored.nextExpiry === null || (stored.nextExpiry !== undefined && stored.nextExpiry > now)) continue;
+    const conversation = await decryptConversation(stored, vaultKey);
+    if (conversation) await saveCachedConversation(userId, key.slice(prefix.length), vaultKey, conversation);
+  }
+}
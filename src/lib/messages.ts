@@ -0,0 +1,238 @@
+// Fetching and decrypting a conversation's message rows.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { decryptMessage } from './crypto';
+import { decryptSessionMessage, isSessionMessage } from './sessions';
+import { SignatureStatus, verifyMessageSignature } from './signatures';
+import { Envelope, ReplyRef, createEnvelope, decodeEnvelope } from './envelope';
+import { deleteAttachment } from './attachments';
+
+export const PAGE_SIZE = 50;
+
+export type MessageRow = Tables<'messages'>;
+
+export interface DecryptedMessage {
+  id: string;
+  sender_id: string;
+  envelope: Envelope;
+  created_at: string;
+  read_at: string | null;
+  expires_at: string | null;
+  signature: SignatureStatus;
+  status?: 'pending' | 'failed'; // still in the outbox
+  deleted?: boolean; // deleted for everyone; only the tombstone remains
+}
+
+// Rows are ordered by (created_at, id); the oldest loaded row is the cursor
+// for the next page.
+export interface PageCursor {
+  created_at: string;
+  id: string;
+}
+
+// A 1:1 conversation is named by the friend's id, a group chat by its id
+export type Conversation = { friendId: string } | { groupId: string };
+
+// PostgREST filter for a conversation's rows
+function conversationFilter(userId: string, conversation: Conversation): string {
+  if ('groupId' in conversation) return `group_id.eq.${conversation.groupId}`;
+  const { friendId } = conversation;
+  return `and(sender_id.eq.${userId},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${userId})`;
+}
+
+// PostgREST filter for rows before (lt) or after (gt) a cursor in (created_at, id) order
+function cursorFilter(cursor: PageCursor, op: 'lt' | 'gt'): string {
+  return `created_at.${op}."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.${op}.${cursor.id})`;
+}
+
+// A conversation's rows on one side of a cursor, as a single filter
+function pageFilter(userId: string, conversation: Conversation, cursor: PageCursor, op: 'lt' | 'gt'): string {
+  return `and(or(${conversationFilter(userId, conversation)}),or(${cursorFilter(cursor, op)}))`;
+}
+
+// One page of a conversation, newest rows before `before`, returned oldest first
+export async function fetchMessagePage(userId: string, conversation: Conversation, before?: PageCursor): Promise<MessageRow[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .or(before ? pageFilter(userId, conversation, before, 'lt') : conversationFilter(userId, conversation))
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE);
+  if (error) throw error;
+  return data.reverse();
+}
+
+// Every row after `after` (the newest row already held locally), oldest first
+export async function fetchMessagesAfter(userId: string, conversation: Conversation, after: PageCursor): Promise<MessageRow[]> {
+  const rows: MessageRow[] = [];
+  let cursor = after;
+  for (;;) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .or(pageFilter(userId, conversation, cursor, 'gt'))
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+    cursor = data[data.length - 1];
+  }
+}
+
+// Current read receipts for the given message ids
+export async function fetchReadStates(ids: string[]): Promise<{ id: string; read_at: string | null }[]> {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase.from('messages').select('id, read_at').in('id', ids);
+  if (error) throw error;
+  return data;
+}
+
+// Mark a friend's messages to us read, or only the given ids among them
+export async function markMessagesRead(senderId: string, ids?: string[]): Promise<void> {
+  const { error } = await supabase.rpc('mark_messages_read', { sender: senderId, message_ids: ids });
+  if (error) throw error;
+}
+
+async function decryptEnvelope(userId: string, msg: MessageRow, pk: CryptoKey | null, signature: SignatureStatus): Promise<Envelope> {
+  if (msg.version > 0 || isSessionMessage(msg.encrypted_key)) {
+    // An unauthenticated row must never advance or replace ratchet sessions
+    if (signature !== 'valid') return createEnvelope('text', '⚠️ Message could not be authenticated');
+    return decodeEnvelope(await decryptSessionMessage(userId, msg), msg.version);
+  }
+  if (!pk) throw new Error('Legacy key unavailable');
+  return decodeEnvelope(await decryptMessage(msg.ciphertext, msg.encrypted_key, msg.iv, pk, userId), msg.version);
+}
+
+// Never throws: rows that fail to decrypt get a placeholder
+export async function decryptRow(userId: string, msg: MessageRow, pk: CryptoKey | null): Promise<DecryptedMessage> {
+  const base = { id: msg.id, sender_id: msg.sender_id, created_at: msg.created_at, read_at: msg.read_at, expires_at: msg.expires_at };
+  if (msg.deleted_at) return toTombstone({ ...base, envelope: createEnvelope('text', ''), signature: 'unsigned' });
+  try {
+    const signature = await verifyMessageSignature(msg);
+    return { ...base, envelope: await decryptEnvelope(userId, msg, pk, signature), signature };
+  } catch (e) {
+    console.error('Failed to decrypt message', msg.id, e);
+    return { ...base, envelope: createEnvelope('text', '🔒 Unable to decrypt'), signature: 'unsigned' };
+  }
+}
+
+// Rows from different sending devices are decrypted concurrently. Each
+// device's rows are chained one after another in row order, so its ratchet
+// steps forward in order instead of relying on skipped message keys.
+export function decryptRows(userId: string, rows: MessageRow[], pk: CryptoKey | null): Promise<DecryptedMessage[]> {
+  const chains = new Map<string, Promise<unknown>>();
+  return Promise.all(rows.map(row => {
+    // Legacy rows have no sending device and no session to order
+    const chain = row.sender_device_id ?? row.id;
+    const decrypted = (chains.get(chain) ?? Promise.resolve()).then(() => decryptRow(userId, row, pk));
+    chains.set(chain, decrypted);
+    return decrypted;
+  }));
+}
+
+export function toTombstone(msg: DecryptedMessage): DecryptedMessage {
+  return { ...msg, envelope: createEnvelope('text', ''), status: undefined, deleted: true };
+}
+
+// Ids of messages in the conversation deleted for everyone, among those sent
+// since `since`
+export async function fetchDeletedIds(userId: string, conversation: Conversation, since: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id')
+    .or(conversationFilter(userId, conversation))
+    .not('deleted_at', 'is', null)
+    .gte('created_at', since);
+  if (error) throw error;
+  return data.map(r => r.id);
+}
+
+// The window the server is set up with; used until the real one is fetched.
+// The server enforces its own setting either way.
+const DEFAULT_DELETE_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+let deleteWindow: Promise<number> | null = null;
+
+// How long after sending (ms) a message can still be deleted for everyone.
+// A failed fetch isn't cached, so the next call tries again.
+export function fetchDeleteWindow(): Promise<number> {
+  if (!deleteWindow) {
+    deleteWindow = (async () => {
+      const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'message_delete_window_seconds').maybeSingle();
+      if (error) throw error;
+      return Number(data?.value ?? 0) * 1000;
+    })();
+    deleteWindow.catch(() => { deleteWindow = null; });
+  }
+  return deleteWindow.catch(() => DEFAULT_DELETE_WINDOW_MS);
+}
+
+// Tombstone a message for both parties, removing its edit revisions and
+// attachment ciphertext too. The server finds the revisions by their revises
+// column.
+export async function deleteForEveryone(msg: DecryptedMessage): Promise<void> {
+  const { error } = await supabase.rpc('delete_message_for_everyone', { target: msg.id });
+  if (error) throw error;
+  if (msg.envelope.meta.attachment) {
+    await deleteAttachment(msg.envelope.meta.attachment).catch(e => console.error('Failed to delete attachment', e));
+  }
+}
+
+// Edits per original message id, oldest first. Only edits by the original
+// sender count; anyone else's are ignored.
+export function collectEdits(messages: DecryptedMessage[]): Map<string, DecryptedMessage[]> {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const edits = new Map<string, DecryptedMessage[]>();
+  for (const m of messages) {
+    if (m.envelope.type !== 'edit') continue;
+    const target = byId.get(m.envelope.meta.target!);
+    if (!target || target.sender_id !== m.sender_id) continue;
+    edits.set(target.id, [...(edits.get(target.id) ?? []), m]);
+  }
+  return edits;
+}
+
+// Current reactions per message id, as emoji by user id. Each user has at
+// most one reaction per message; a later reaction replaces it and an empty
+// one removes it.
+export function collectReactions(messages: DecryptedMessage[]): Map<string, Map<string, string>> {
+  const reactions = new Map<string, Map<string, string>>();
+  for (const m of messages) {
+    if (m.envelope.type !== 'reaction') continue;
+    const target = m.envelope.meta.target!;
+    const byUser = reactions.get(target) ?? new Map<string, string>();
+    if (m.envelope.body) byUser.set(m.sender_id, m.envelope.body);
+    else byUser.delete(m.sender_id);
+    reactions.set(target, byUser);
+  }
+  return reactions;
+}
+
+const REPLY_EXCERPT_LENGTH = 100;
+
+// Quote for a reply to msg; body is the text currently shown for it, which
+// differs from the envelope once the message has been edited
+export function replyReference(msg: DecryptedMessage, body = msg.envelope.body): ReplyRef {
+  const { attachment } = msg.envelope.meta;
+  const text = body || (attachment ? `📎 ${attachment.name}` : '');
+  return {
+    id: msg.id,
+    sender_id: msg.sender_id,
+    excerpt: text.length > REPLY_EXCERPT_LENGTH ? `${text.slice(0, REPLY_EXCERPT_LENGTH)}…` : text,
+  };
+}
+
+// Union of two message lists by id, in (created_at, id) order
+export function mergeMessages(existing: DecryptedMessage[], incoming: DecryptedMessage[]): DecryptedMessage[] {
+  const byId = new Map(existing.map(m => [m.id, m]));
+  for (const m of incoming) if (!byId.has(m.id)) byId.set(m.id, m);
+  return [...byId.values()].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+}
+
+export function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
@@ -0,0 +1,84 @@
+// Persistent outbox. Messages are encrypted and signed once, when the user
+// sends them, and the finished row is queued here until the insert succeeds,
+// so a failed send can be retried without touching the ratchet again.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { STORES, idbGet, idbGetAll, idbPut, idbDelete } from './idb';
+import { decodeEnvelope } from './envelope';
+import { recallPlaintext } from './plaintexts';
+import type { DecryptedMessage, MessageRow } from './messages';
+
+type QueuedRow = TablesInsert<'messages'> & { id: string; version: number };
+
+interface OutboxEntry {
+  row: QueuedRow;
+  queuedAt: string;
+  failed: boolean;
+}
+
+export async function enqueueMessage(row: QueuedRow): Promise<string> {
+  const queuedAt = new Date().toISOString();
+  await idbPut(STORES.outbox, row.id, { row, queuedAt, failed: false });
+  return queuedAt;
+}
+
+// A conversation's queued rows; conversationId is the friend's or group's id
+async function conversationEntries(userId: string, conversationId: string): Promise<OutboxEntry[]> {
+  const entries = await idbGetAll<OutboxEntry>(STORES.outbox);
+  return entries
+    .filter(e => e.row.sender_id === userId && (e.row.group_id ?? e.row.receiver_id) === conversationId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+// Ids of a conversation's queued messages, in the order they were sent
+export async function queuedMessageIds(userId: string, conversationId: string): Promise<string[]> {
+  return (await conversationEntries(userId, conversationId)).map(e => e.row.id);
+}
+
+// Queued messages as bubbles, using the plaintext remembered at send time
+export async function loadOutboxMessages(userId: string, conversationId: string): Promise<DecryptedMessage[]> {
+  const messages: DecryptedMessage[] = [];
+  for (const { row, queuedAt, failed } of await conversationEntries(userId, conversationId)) {
+    const plaintext = await recallPlaintext(userId, row.id);
+    if (plaintext === undefined) continue;
+    messages.push({
+      id: row.id,
+      sender_id: row.sender_id,
+      envelope: decodeEnvelope(plaintext, row.version),
+      created_at: queuedAt,
+      read_at: null,
+      expires_at: row.expires_at ?? null,
+      signature: 'valid',
+      status: failed ? 'failed' : 'pending',
+    });
+  }
+  return messages;
+}
+
+// Insert a queued row. On failure the entry is kept and marked failed.
+export async function sendQueuedMessage(id: string): Promise<MessageRow> {
+  const entry = await idbGet<OutboxEntry>(STORES.outbox, id);
+  if (!entry) throw new Error('Message is no longer queued');
+
+  const { data, error } = await supabase.from('messages').insert(entry.row).select().single();
+  if (error) {
+    // Unique violation: an earlier attempt got through but its response was lost
+    if (error.code === '23505') {
+      const { data: existing } = await supabase.from('messages').select('*').eq('id', id).single();
+      if (existing) {
+        await idbDelete(STORES.outbox, id);
+        return existing;
+      }
+    }
+    await idbPut(STORES.outbox, id, { ...entry, failed: true });
+    throw error;
+  }
+
+  await idbDelete(STORES.outbox, id);
+  return data;
+}
+
+export async function discardQueuedMessage(id: string): Promise<void> {
+  await idbDelete(STORES.outbox, id);
+}
@@ -0,0 +1,74 @@
+// Plaintexts of ratchet messages. Ratchet message keys are deleted after use,
+// so a message can only be decrypted once, and the sender never holds a key
+// for its own copy at all; the text is kept here instead. Entries are AES-GCM
+// encrypted under the vault key, so they survive sign-out but can't be read
+// until the same password unlocks the vault again, and carry the message's
+// expiry so disappearing messages are swept even if they were never opened.
+
+import { STORES, idbGet, idbPut, idbDelete, idbEntries } from './idb';
+import { restoreVault } from './vault';
+
+interface StoredPlaintext {
+  userId: string;
+  encrypted: ArrayBuffer;
+  iv: Uint8Array;
+  expiresAt: number | null; // epoch ms
+}
+
+const plaintextKey = (userId: string, messageId: string) => `${userId}:${messageId}`;
+
+async function requireVaultKey(userId: string): Promise<CryptoKey> {
+  const key = await restoreVault(userId);
+  if (!key) throw new Error('Vault is locked');
+  return key;
+}
+
+async function sealPlaintext(userId: string, vaultKey: CryptoKey, text: string, expiresAt: string | null): Promise<StoredPlaintext> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, vaultKey, new TextEncoder().encode(text));
+  return { userId, encrypted, iv, expiresAt: expiresAt ? new Date(expiresAt).getTime() : null };
+}
+
+export async function rememberPlaintext(userId: string, messageId: string, text: string, expiresAt: string | null): Promise<void> {
+  const stored = await sealPlaintext(userId, await requireVaultKey(userId), text, expiresAt);
+  await idbPut(STORES.plaintexts, plaintextKey(userId, messageId), stored);
+}
+
+// The remembered plaintext, or undefined if there is none this vault key opens
+export async function recallPlaintext(userId: string, messageId: string): Promise<string | undefined> {
+  const stored = await idbGet<StoredPlaintext>(STORES.plaintexts, plaintextKey(userId, messageId));
+  if (!stored) return undefined;
+  if (stored.expiresAt !== null && stored.expiresAt <= Date.now()) return undefined;
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: stored.iv as BufferSource },
+      await requireVaultKey(userId),
+      stored.encrypted
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    // Written under a previous vault key
+    return undefined;
+  }
+}
+
+// Drop a remembered plaintext, e.g. once the message is deleted
+export async function forgetPlaintext(userId: string, messageId: string): Promise<void> {
+  await idbDelete(STORES.plaintexts, plaintextKey(userId, messageId));
+}
+
+// Delete expired plaintexts, and encrypt any left in cleartext (keyed by bare
+// message id) by clients from before plaintexts were sealed. Those can't be
+// attributed to a user, so whoever unlocks first takes them over.
+export async function sweepPlaintexts(userId: string): Promise<void> {
+  const vaultKey = await requireVaultKey(userId);
+  const now = Date.now();
+  for (const [key, value] of await idbEntries<StoredPlaintext | string>(STORES.plaintexts)) {
+    if (typeof value === 'string') {
+      await idbPut(STORES.plaintexts, plaintextKey(userId, String(key)), await sealPlaintext(userId, vaultKey, value, null));
+      await idbDelete(STORES.plaintexts, key);
+    } else if (value.expiresAt !== null && value.expiresAt <= now) {
+      await idbDelete(STORES.plaintexts, key);
+    }
+  }
+}
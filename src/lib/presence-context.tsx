@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { fetchFriends } from '@/lib/groups';
+import { PresenceContext, presenceTopic } from '@/lib/presence';
+
+// How often an open app refreshes the stored last-seen time
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+const touchLastSeen = () => {
+  supabase.rpc('touch_last_seen').then(({ error }) => {
+    if (error) console.error('Failed to update last seen', error);
+  });
+};
+
+export function PresenceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [showPresence, setShowPresenceState] = useState(false);
+  const [friendIds, setFriendIds] = useState<string[]>([]);
+  const [onlineIds, setOnlineIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!userId) return;
+    supabase.from('profiles').select('show_presence').eq('user_id', userId).maybeSingle()
+      .then(({ data }) => setShowPresenceState(data?.show_presence ?? true));
+  }, [userId]);
+
+  // Friends are the only people presence is exchanged with, so the list is
+  // refreshed whenever a friendship starts or ends
+  useEffect(() => {
+    if (!userId || !showPresence) {
+      setFriendIds([]);
+      return;
+    }
+    const load = () => fetchFriends(userId)
+      .then(friends => {
+        const ids = friends.map(f => f.user_id).sort();
+        setFriendIds(prev => (prev.join() === ids.join() ? prev : ids));
+      })
+      .catch(err => console.error('Failed to load friends for presence', err));
+    load();
+    const channel = supabase
+      .channel(`presence-friends:${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'friend_requests' }, load)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [userId, showPresence]);
+
+  // One private channel per friendship; the server only lets the two friends
+  // join, and only while they share their presence. Nothing is joined or
+  // tracked while this user hides theirs.
+  useEffect(() => {
+    if (!userId || !showPresence) return;
+    const channels = friendIds.map(friendId => {
+      const channel = supabase.channel(presenceTopic(userId, friendId), {
+        config: { private: true, presence: { key: userId } },
+      });
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          const online = friendId in channel.presenceState();
+          setOnlineIds(prev => {
+            if (prev.has(friendId) === online) return prev;
+            const next = new Set(prev);
+            if (online) next.add(friendId);
+            else next.delete(friendId);
+            return next;
+          });
+        })
+        .subscribe(status => {
+          if (status === 'SUBSCRIBED') channel.track({});
+        });
+      return channel;
+    });
+    return () => {
+      setOnlineIds(new Set());
+      channels.forEach(channel => supabase.removeChannel(channel));
+    };
+  }, [userId, showPresence, friendIds]);
+
+  useEffect(() => {
+    if (!userId || !showPresence) return;
+    touchLastSeen();
+    const interval = setInterval(touchLastSeen, LAST_SEEN_INTERVAL_MS);
+    const onHide = () => { if (document.visibilityState === 'hidden') touchLastSeen(); };
+    document.addEventListener('visibilitychange', onHide);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onHide);
+    };
+  }, [userId, showPresence]);
+
+  const setShowPresence = async (show: boolean) => {
+    if (!userId) return;
+    const { error } = await supabase.from('profiles').update({ show_presence: show }).eq('user_id', userId);
+    if (error) throw error;
+    setShowPresenceState(show);
+    // Clears the stored last-seen time when hiding
+    touchLastSeen();
+  };
+
+  const isOnline = useCallback(
+    (id: string) => showPresence && onlineIds.has(id),
+    [showPresence, onlineIds]
+  );
+
+  return (
+    <PresenceContext.Provider value={{ showPresence, setShowPresence, isOnline }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+
+export interface PresenceContextType {
+  // Whether this user shares their presence. Hiding it also hides everyone
+  // else's, as in most messengers.
+  showPresence: boolean;
+  setShowPresence: (show: boolean) => Promise<void>;
+  isOnline: (userId: string) => boolean;
+}
+
+export const PresenceContext = createContext<PresenceContextType>({
+  showPresence: false,
+  setShowPresence: async () => {},
+  isOnline: () => false,
+});
+
+export const usePresence = () => useContext(PresenceContext);
+
+// Presence is shared on one private channel per friendship, named after both
+// user ids in sorted order so both sides join the same one
+export const presenceTopic = (a: string, b: string) => `presence:${[a, b].sort().join(':')}`;
@@ -0,0 +1,216 @@
+// Double Ratchet (https://signal.org/docs/specifications/doubleratchet/)
+// built on Web Crypto: ECDH P-256 for the DH ratchet, HKDF-SHA256 for the
+// root chain, HMAC-SHA256 for the symmetric chains and AES-GCM for messages.
+
+import { toBase64, fromBase64 } from './crypto';
+
+// Upper bound on message keys skipped in a single chain (protects against DoS)
+const MAX_SKIP = 1000;
+const ROOT_INFO = new TextEncoder().encode('VaultChat Ratchet');
+const MESSAGE_INFO = new TextEncoder().encode('VaultChat Message Keys');
+
+export interface RatchetHeader {
+  dh: string; // sender's current ratchet public key (b64 raw)
+  pn: number; // length of the previous sending chain
+  n: number; // message number in the current sending chain
+}
+
+export interface RatchetState {
+  dhs: CryptoKeyPair;
+  dhsPub: string;
+  dhr: string | null;
+  rk: ArrayBuffer;
+  cks: ArrayBuffer | null;
+  ckr: ArrayBuffer | null;
+  ns: number;
+  nr: number;
+  pn: number;
+  skipped: { [dhAndN: string]: ArrayBuffer };
+  ad: ArrayBuffer;
+}
+
+// ECDH helpers
+
+export async function generateDHKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+}
+
+export async function exportRawPublicKey(key: CryptoKey): Promise<string> {
+  return toBase64(await crypto.subtle.exportKey('raw', key));
+}
+
+export async function importDHPublicKey(base64: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(base64) as BufferSource, { name: 'ECDH', namedCurve: 'P-256' }, true, []);
+}
+
+export async function dh(privateKey: CryptoKey, publicKeyB64: string): Promise<ArrayBuffer> {
+  const publicKey = await importDHPublicKey(publicKeyB64);
+  return crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+}
+
+export async function hkdf(ikm: ArrayBuffer, salt: ArrayBuffer, info: Uint8Array, bytes: number): Promise<ArrayBuffer> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: salt as BufferSource, info: info as BufferSource },
+    key,
+    bytes * 8
+  );
+}
+
+export function concatBytes(...parts: (ArrayBuffer | Uint8Array)[]): Uint8Array {
+  const arrays = parts.map(p => (p instanceof Uint8Array ? p : new Uint8Array(p)));
+  const out = new Uint8Array(arrays.reduce((len, a) => len + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    out.set(a, offset);
+    offset += a.length;
+  }
+  return out;
+}
+
+// KDF chains
+
+async function kdfRk(rk: ArrayBuffer, dhOut: ArrayBuffer): Promise<[ArrayBuffer, ArrayBuffer]> {
+  const out = await hkdf(dhOut, rk, ROOT_INFO, 64);
+  return [out.slice(0, 32), out.slice(32)];
+}
+
+async function kdfCk(ck: ArrayBuffer): Promise<[ArrayBuffer, ArrayBuffer]> {
+  const key = await crypto.subtle.importKey('raw', ck, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const [nextCk, mk] = await Promise.all([
+    crypto.subtle.sign('HMAC', key, new Uint8Array([0x02])),
+    crypto.subtle.sign('HMAC', key, new Uint8Array([0x01])),
+  ]);
+  return [nextCk, mk];
+}
+
+// Message encryption under a one-time message key
+
+function encodeHeader(header: RatchetHeader): Uint8Array {
+  return new TextEncoder().encode(`${header.dh}.${header.pn}.${header.n}`);
+}
+
+async function messageCipher(mk: ArrayBuffer): Promise<{ key: CryptoKey; iv: Uint8Array }> {
+  const out = await hkdf(mk, new ArrayBuffer(32), MESSAGE_INFO, 44);
+  const key = await crypto.subtle.importKey('raw', out.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { key, iv: new Uint8Array(out.slice(32)) };
+}
+
+async function sealWithMessageKey(mk: ArrayBuffer, plaintext: ArrayBuffer, ad: Uint8Array): Promise<string> {
+  const { key, iv } = await messageCipher(mk);
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource, additionalData: ad as BufferSource },
+    key,
+    plaintext
+  );
+  return toBase64(sealed);
+}
+
+async function openWithMessageKey(mk: ArrayBuffer, ciphertext: string, ad: Uint8Array): Promise<ArrayBuffer> {
+  const { key, iv } = await messageCipher(mk);
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource, additionalData: ad as BufferSource },
+    key,
+    fromBase64(ciphertext) as BufferSource
+  );
+}
+
+// Initialisation after X3DH. The initiator knows the responder's signed prekey
+// and performs the first DH ratchet step immediately.
+
+export async function initRatchetAsSender(sk: ArrayBuffer, remoteRatchetKey: string, ad: ArrayBuffer): Promise<RatchetState> {
+  const dhs = await generateDHKeyPair();
+  const [rk, cks] = await kdfRk(sk, await dh(dhs.privateKey, remoteRatchetKey));
+  return {
+    dhs,
+    dhsPub: await exportRawPublicKey(dhs.publicKey),
+    dhr: remoteRatchetKey,
+    rk,
+    cks,
+    ckr: null,
+    ns: 0,
+    nr: 0,
+    pn: 0,
+    skipped: {},
+    ad,
+  };
+}
+
+export async function initRatchetAsReceiver(sk: ArrayBuffer, ownRatchetKey: CryptoKeyPair, ad: ArrayBuffer): Promise<RatchetState> {
+  return {
+    dhs: ownRatchetKey,
+    dhsPub: await exportRawPublicKey(ownRatchetKey.publicKey),
+    dhr: null,
+    rk: sk,
+    cks: null,
+    ckr: null,
+    ns: 0,
+    nr: 0,
+    pn: 0,
+    skipped: {},
+    ad,
+  };
+}
+
+// States are mutated in place; callers clone before trial decryptions so a
+// failed attempt never corrupts the stored session.
+export function cloneRatchetState(state: RatchetState): RatchetState {
+  return { ...state, skipped: { ...state.skipped } };
+}
+
+export async function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: ArrayBuffer
+): Promise<{ header: RatchetHeader; ciphertext: string }> {
+  if (!state.cks) throw new Error('Ratchet has no sending chain');
+  const [cks, mk] = await kdfCk(state.cks);
+  state.cks = cks;
+  const header: RatchetHeader = { dh: state.dhsPub, pn: state.pn, n: state.ns };
+  state.ns += 1;
+  const ciphertext = await sealWithMessageKey(mk, plaintext, concatBytes(state.ad, encodeHeader(header)));
+  return { header, ciphertext };
+}
+
+async function skipMessageKeys(state: RatchetState, until: number): Promise<void> {
+  if (state.nr + MAX_SKIP < until) throw new Error('Too many skipped messages');
+  if (!state.ckr) return;
+  while (state.nr < until) {
+    const [ckr, mk] = await kdfCk(state.ckr);
+    state.ckr = ckr;
+    state.skipped[`${state.dhr}:${state.nr}`] = mk;
+    state.nr += 1;
+  }
+}
+
+async function dhRatchet(state: RatchetState, header: RatchetHeader): Promise<void> {
+  state.pn = state.ns;
+  state.ns = 0;
+  state.nr = 0;
+  state.dhr = header.dh;
+  [state.rk, state.ckr] = await kdfRk(state.rk, await dh(state.dhs.privateKey, state.dhr));
+  state.dhs = await generateDHKeyPair();
+  state.dhsPub = await exportRawPublicKey(state.dhs.publicKey);
+  [state.rk, state.cks] = await kdfRk(state.rk, await dh(state.dhs.privateKey, state.dhr));
+}
+
+export async function ratchetDecrypt(state: RatchetState, header: RatchetHeader, ciphertext: string): Promise<ArrayBuffer> {
+  const ad = concatBytes(state.ad, encodeHeader(header));
+
+  const skippedId = `${header.dh}:${header.n}`;
+  const skippedKey = state.skipped[skippedId];
+  if (skippedKey) {
+    const plaintext = await openWithMessageKey(skippedKey, ciphertext, ad);
+    delete state.skipped[skippedId];
+    return plaintext;
+  }
+
+  if (header.dh !== state.dhr) {
+    await skipMessageKeys(state, header.pn);
+    await dhRatchet(state, header);
+  }
+  await skipMessageKeys(state, header.n);
+  const [ckr, mk] = await kdfCk(state.ckr!);
+  state.ckr = ckr;
+  state.nr += 1;
+  return openWithMessageKey(mk, ciphertext, ad);
+}
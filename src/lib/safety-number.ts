@@ -0,0 +1,176 @@
+// Safety numbers (Signal-style numeric fingerprints), local verification state
+// and key pinning, of contacts and of the user's own devices. A user's fingerprint covers their account key
+// (profiles.public_key) and the identity and signing keys of every registered
+// device, so a swapped key or a device the user didn't add changes the number.
+
+import { supabase } from '@/integrations/supabase/client';
+import { fromBase64, toBase64 } from './crypto';
+import { concatBytes } from './ratchet';
+import { STORES, idbGet, idbPut, idbDelete } from './idb';
+import { DeviceKeys, fetchDeviceKeys } from './x3dh';
+
+// Version 1 added device signing keys
+const FINGERPRINT_VERSION = 1;
+const FINGERPRINT_ITERATIONS = 5200;
+
+export interface Verification {
+  fingerprint: string; // contact's fingerprint (b64) at the time of verification
+  verifiedAt: string;
+}
+
+// Last-seen fingerprint of a contact (trust on first use)
+interface PinnedIdentity {
+  fingerprint: string;
+  changes: string[]; // when key changes were detected (ISO timestamps)
+  unacknowledged: boolean;
+}
+
+export interface KeyChangeStatus {
+  changed: boolean; // a change the user hasn't acknowledged yet
+  changes: string[];
+}
+
+export interface CheckedRecipients {
+  devices: DeviceKeys[]; // of the recipients and the user, exactly as checked
+  statuses: Record<string, KeyChangeStatus>; // by user id, including the user's own
+}
+
+// All public keys that make up a user's identity, in a stable order
+export function identityKeys(publicKey: string | null, devices: Pick<DeviceKeys, 'identity_key' | 'signing_key'>[]): string[] {
+  const deviceKeys = [...devices]
+    // Code unit order, like the default sort, so every locale agrees
+    .sort((a, b) => (a.identity_key < b.identity_key ? -1 : a.identity_key > b.identity_key ? 1 : 0))
+    .flatMap(d => [d.identity_key, d.signing_key]);
+  return publicKey ? [publicKey, ...deviceKeys] : deviceKeys;
+}
+
+export async function fetchIdentityKeys(userId: string): Promise<string[]> {
+  const [{ data: profile }, devices] = await Promise.all([
+    supabase.from('profiles').select('public_key').eq('user_id', userId).maybeSingle(),
+    fetchDeviceKeys([userId]),
+  ]);
+  return identityKeys(profile?.public_key ?? null, devices);
+}
+
+const fingerprintCache = new Map<string, Uint8Array>();
+
+// Iterated SHA-512 over version || keys || user id, truncated to 30 bytes
+export async function computeFingerprint(userId: string, keys: string[]): Promise<Uint8Array> {
+  const cacheKey = `${userId}:${keys.join(',')}`;
+  const cached = fingerprintCache.get(cacheKey);
+  if (cached) return cached;
+
+  const keyBytes = concatBytes(...keys.map(fromBase64));
+  let hash = await crypto.subtle.digest(
+    'SHA-512',
+    concatBytes(new Uint8Array([0, FINGERPRINT_VERSION]), keyBytes, new TextEncoder().encode(userId)) as BufferSource
+  );
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = await crypto.subtle.digest('SHA-512', concatBytes(hash, keyBytes) as BufferSource);
+  }
+  const fingerprint = new Uint8Array(hash.slice(0, 30));
+  fingerprintCache.set(cacheKey, fingerprint);
+  return fingerprint;
+}
+
+// 30 digits: six 5-byte chunks, each reduced to 5 decimal digits
+function displayDigits(fingerprint: Uint8Array): string {
+  let digits = '';
+  for (let i = 0; i < 30; i += 5) {
+    let chunk = 0;
+    for (let j = 0; j < 5; j++) chunk = chunk * 256 + fingerprint[i + j];
+    digits += String(chunk % 100000).padStart(5, '0');
+  }
+  return digits;
+}
+
+// 60-digit safety number; both parties see the same digits because the two
+// halves are ordered by user id rather than by who is looking.
+export async function computeSafetyNumber(
+  myId: string,
+  myKeys: string[],
+  theirId: string,
+  theirKeys: string[]
+): Promise<{ safetyNumber: string; theirFingerprint: string }> {
+  const [mine, theirs] = await Promise.all([computeFingerprint(myId, myKeys), computeFingerprint(theirId, theirKeys)]);
+  const halves = myId < theirId ? [mine, theirs] : [theirs, mine];
+  return {
+    safetyNumber: halves.map(displayDigits).join(''),
+    theirFingerprint: toBase64(theirs),
+  };
+}
+
+// Payload encoded into the verification QR code
+export function safetyNumberQrValue(safetyNumber: string): string {
+  return `vaultchat-verify:${FINGERPRINT_VERSION}:${safetyNumber}`;
+}
+
+const verificationKey = (userId: string, contactId: string) => `${userId}:${contactId}`;
+
+export async function getVerification(userId: string, contactId: string): Promise<Verification | null> {
+  return (await idbGet<Verification>(STORES.verified, verificationKey(userId, contactId))) ?? null;
+}
+
+export async function markVerified(userId: string, contactId: string, fingerprint: string): Promise<void> {
+  await idbPut(STORES.verified, verificationKey(userId, contactId), { fingerprint, verifiedAt: new Date().toISOString() });
+}
+
+export async function clearVerification(userId: string, contactId: string): Promise<void> {
+  await idbDelete(STORES.verified, verificationKey(userId, contactId));
+}
+
+// A user's fingerprint (b64) from their keys as they are now
+export async function currentFingerprint(contactId: string): Promise<string> {
+  return toBase64(await computeFingerprint(contactId, await fetchIdentityKeys(contactId)));
+}
+
+// Verified only while the contact's keys still match what was verified
+export async function checkVerified(userId: string, contactId: string): Promise<boolean> {
+  const verification = await getVerification(userId, contactId);
+  if (!verification) return false;
+  return (await currentFingerprint(contactId)) === verification.fingerprint;
+}
+
+// Compare a fingerprint with the one pinned for contactId, pinning on first
+// contact and recording a change otherwise. contactId may be the user, whose
+// own devices are pinned the same way.
+async function pinFingerprint(userId: string, contactId: string, fingerprint: string): Promise<KeyChangeStatus> {
+  const key = verificationKey(userId, contactId);
+  let pinned = await idbGet<PinnedIdentity>(STORES.pinnedKeys, key);
+
+  if (!pinned) {
+    pinned = { fingerprint, changes: [], unacknowledged: false };
+    await idbPut(STORES.pinnedKeys, key, pinned);
+  } else if (pinned.fingerprint !== fingerprint) {
+    pinned = { fingerprint, changes: [...pinned.changes, new Date().toISOString()], unacknowledged: true };
+    await idbPut(STORES.pinnedKeys, key, pinned);
+  }
+  return { changed: pinned.unacknowledged, changes: pinned.changes };
+}
+
+// Check every recipient and the user's own devices, which receive a copy of
+// everything sent, in one read. Encrypting to exactly the returned devices
+// means nothing is sealed for a key that wasn't checked.
+export async function checkRecipientKeys(userId: string, recipientIds: string[]): Promise<CheckedRecipients> {
+  const userIds = [...new Set([...recipientIds, userId])];
+  const [{ data: profiles, error }, devices] = await Promise.all([
+    supabase.from('profiles').select('user_id, public_key').in('user_id', userIds),
+    fetchDeviceKeys(userIds),
+  ]);
+  if (error) throw error;
+
+  const statuses: Record<string, KeyChangeStatus> = {};
+  for (const id of userIds) {
+    const publicKey = profiles.find(p => p.user_id === id)?.public_key ?? null;
+    const keys = identityKeys(publicKey, devices.filter(d => d.user_id === id));
+    statuses[id] = await pinFingerprint(userId, id, toBase64(await computeFingerprint(id, keys)));
+  }
+  return { devices, statuses };
+}
+
+// The user has seen the warning and accepts the new keys
+export async function acknowledgeKeyChange(userId: string, contactId: string): Promise<void> {
+  const key = verificationKey(userId, contactId);
+  const pinned = await idbGet<PinnedIdentity>(STORES.pinnedKeys, key);
+  if (pinned) await idbPut(STORES.pinnedKeys, key, { ...pinned, unacknowledged: false });
+}
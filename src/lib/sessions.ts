@@ -0,0 +1,170 @@
+// Pairwise Double Ratchet sessions between devices, persisted in IndexedDB.
+// A message body is encrypted once under a random content key; that key is
+// then sealed for every device of the recipients (and the sender's other
+// devices) with the pairwise ratchet session.
+
+import { encryptContent, decryptContent } from './crypto';
+import { STORES, idbGet, idbPut } from './idb';
+import { withLock } from './locks';
+import { recallPlaintext, rememberPlaintext } from './plaintexts';
+import { RatchetHeader, RatchetState, ratchetEncrypt, ratchetDecrypt, cloneRatchetState } from './ratchet';
+import { DeviceKeys, LocalIdentity, PreKeyHeader, loadIdentity, initiateSession, respondToSession, consumeOneTimePreKey } from './x3dh';
+
+// Older sessions are kept briefly so messages in flight during a session
+// reset (e.g. both sides initiating at once) still decrypt.
+const MAX_ARCHIVED_SESSIONS = 5;
+
+interface Session {
+  ratchet: RatchetState;
+  baseKey: string; // initiator's ephemeral key; identifies the session on both sides
+  remoteIdentity: string;
+  preKey: PreKeyHeader | null; // set until the peer has replied on this session
+}
+
+interface SessionRecord {
+  current: Session | null;
+  archived: Session[];
+}
+
+// Wire format of a content key sealed for one recipient
+export interface SealedKey {
+  h: RatchetHeader;
+  c: string;
+  p?: PreKeyHeader;
+}
+
+// Sessions are per local user and remote device
+const sessionAddress = (userId: string, peerDeviceId: string) => `${userId}:${peerDeviceId}`;
+
+// Ratchet state must be read, advanced and written back atomically
+const withSessionLock = <T>(address: string, fn: () => Promise<T>) => withLock(`session:${address}`, fn);
+
+async function loadRecord(address: string): Promise<SessionRecord> {
+  return (await idbGet<SessionRecord>(STORES.sessions, address)) ?? { current: null, archived: [] };
+}
+
+async function saveRecord(address: string, record: SessionRecord): Promise<void> {
+  await idbPut(STORES.sessions, address, record);
+}
+
+function promote(record: SessionRecord, session: Session): SessionRecord {
+  const others = [record.current, ...record.archived].filter((s): s is Session => !!s && s.baseKey !== session.baseKey);
+  return { current: session, archived: others.slice(0, MAX_ARCHIVED_SESSIONS) };
+}
+
+async function seal(userId: string, identity: LocalIdentity, peer: DeviceKeys, data: ArrayBuffer): Promise<SealedKey> {
+  const address = sessionAddress(userId, peer.id);
+  let record = await loadRecord(address);
+  if (record.current && record.current.remoteIdentity !== peer.identity_key) {
+    throw new Error('Device keys changed while sending');
+  }
+  if (!record.current) {
+    const init = await initiateSession(identity, peer);
+    record = promote(record, {
+      ratchet: init.ratchet,
+      baseKey: init.preKey.ek,
+      remoteIdentity: init.remoteIdentity,
+      preKey: init.preKey,
+    });
+  }
+
+  const session = record.current!;
+  const { header, ciphertext } = await ratchetEncrypt(session.ratchet, data);
+  await saveRecord(address, record);
+  return session.preKey ? { h: header, c: ciphertext, p: session.preKey } : { h: header, c: ciphertext };
+}
+
+async function open(userId: string, identity: LocalIdentity, peerDeviceId: string, sealed: SealedKey): Promise<ArrayBuffer> {
+  const address = sessionAddress(userId, peerDeviceId);
+  const record = await loadRecord(address);
+  const sessions = [record.current, ...record.archived].filter((s): s is Session => !!s);
+
+  const candidates = sealed.p ? sessions.filter(s => s.baseKey === sealed.p!.ek) : sessions;
+  for (const session of candidates) {
+    const trial = { ...session, ratchet: cloneRatchetState(session.ratchet) };
+    try {
+      const plaintext = await ratchetDecrypt(trial.ratchet, sealed.h, sealed.c);
+      await saveRecord(address, promote(record, { ...trial, preKey: null }));
+      return plaintext;
+    } catch {
+      // Try the next session
+    }
+  }
+
+  if (!sealed.p) throw new Error('No session can decrypt this message');
+
+  // First message of a session the peer initiated
+  const ratchet = await respondToSession(identity, sealed.p);
+  const plaintext = await ratchetDecrypt(ratchet, sealed.h, sealed.c);
+  await consumeOneTimePreKey(userId, sealed.p.opk);
+  await saveRecord(address, promote(record, {
+    ratchet,
+    baseKey: sealed.p.ek,
+    remoteIdentity: sealed.p.ik,
+    preKey: null,
+  }));
+  return plaintext;
+}
+
+// True when encrypted_key holds ratchet-sealed keys rather than RSA-wrapped ones
+export function isSessionMessage(encryptedKeyData: string): boolean {
+  try {
+    const parsed = JSON.parse(encryptedKeyData);
+    return Object.values(parsed).some(v => typeof v === 'object' && v !== null);
+  } catch {
+    return false;
+  }
+}
+
+async function requireIdentity(userId: string): Promise<LocalIdentity> {
+  const identity = await loadIdentity(userId);
+  if (!identity?.deviceId) throw new Error('Encryption keys not set up on this device');
+  return identity;
+}
+
+// Encrypt for the given devices of recipientIds and of the sender, except
+// this device. devices is the list the caller checked for key changes, so
+// nothing else is sealed for. encryptedKeys is keyed by device id.
+export async function encryptSessionMessage(userId: string, plaintext: string, recipientIds: string[], devices: DeviceKeys[]): Promise<{
+  ciphertext: string;
+  encryptedKeys: { [deviceId: string]: SealedKey };
+  iv: string;
+  senderDeviceId: string;
+}> {
+  const identity = await requireIdentity(userId);
+  for (const recipientId of recipientIds) {
+    if (!devices.some(d => d.user_id === recipientId)) throw new Error("This user hasn't set up encryption yet.");
+  }
+
+  const { ciphertext, iv, rawKey } = await encryptContent(plaintext);
+  const encryptedKeys: { [deviceId: string]: SealedKey } = {};
+  for (const device of devices) {
+    if (device.id === identity.deviceId) continue;
+    encryptedKeys[device.id] = await withSessionLock(sessionAddress(userId, device.id), () => seal(userId, identity, device, rawKey));
+  }
+  return { ciphertext, encryptedKeys, iv, senderDeviceId: identity.deviceId };
+}
+
+export async function decryptSessionMessage(
+  userId: string,
+  msg: { id: string; sender_device_id: string | null; ciphertext: string; encrypted_key: string; iv: string; expires_at: string | null }
+): Promise<string> {
+  const cached = await recallPlaintext(userId, msg.id);
+  if (cached !== undefined) return cached;
+  if (!msg.sender_device_id) throw new Error('Message predates per-device keys');
+
+  return withSessionLock(sessionAddress(userId, msg.sender_device_id), async () => {
+    // Re-check under the lock: a concurrent call may have just decrypted it
+    const cached = await recallPlaintext(userId, msg.id);
+    if (cached !== undefined) return cached;
+
+    const identity = await requireIdentity(userId);
+    const sealed: SealedKey | undefined = JSON.parse(msg.encrypted_key)[identity.deviceId];
+    if (!sealed || typeof sealed !== 'object') throw new Error('Message was not sealed for this device');
+
+    const rawKey = await open(userId, identity, msg.sender_device_id, sealed);
+    const text = await decryptContent(msg.ciphertext, msg.iv, rawKey);
+    await rememberPlaintext(userId, msg.id, text, msg.expires_at);
+    return text;
+  });
+}
@@ -0,0 +1,43 @@
+// Key-unlock session. The login password is turned into a non-extractable
+// vault key right away and never stored; the key itself is kept in IndexedDB
+// until sign-out so reloads don't require the password again.
+
+import { STORES, idbGet, idbPut } from './idb';
+import { StoredPrivateKey, derivePasswordKey, retrievePrivateKey } from './crypto';
+
+interface VaultRecord {
+  salt: Uint8Array;
+  key?: CryptoKey; // present while unlocked
+}
+
+// Unlock (or create) the vault for userId. Throws if the password does not
+// open the keys already stored on this device.
+export async function unlockVault(userId: string, password: string): Promise<CryptoKey> {
+  const vault = await idbGet<VaultRecord>(STORES.vault, userId);
+  const stored = await idbGet<StoredPrivateKey>(STORES.keypairs, userId);
+  const salt = vault?.salt ?? stored?.salt ?? crypto.getRandomValues(new Uint8Array(16));
+  const key = await derivePasswordKey(password, salt);
+
+  if (stored) {
+    try {
+      await retrievePrivateKey(userId, key);
+    } catch {
+      throw new Error('Incorrect password for the keys on this device');
+    }
+  }
+
+  await idbPut(STORES.vault, userId, { salt, key });
+  return key;
+}
+
+// Resume an unlocked vault after a reload
+export async function restoreVault(userId: string): Promise<CryptoKey | null> {
+  const vault = await idbGet<VaultRecord>(STORES.vault, userId);
+  return vault?.key ?? null;
+}
+
+// Forget the vault key; the salt is kept so the same password unlocks it again
+export async function lockVault(userId: string): Promise<void> {
+  const vault = await idbGet<VaultRecord>(STORES.vault, userId);
+  if (vault) await idbPut(STORES.vault, userId, { salt: vault.salt });
+}
@@ -0,0 +1,273 @@
+// X3DH key agreement (https://signal.org/docs/specifications/x3dh/)
+// Each device publishes an identity key, a signed prekey and a pool of
+// one-time prekeys in the devices table. Private halves are non-extractable
+// CryptoKeys kept in IndexedDB.
+
+import { supabase } from '@/integrations/supabase/client';
+import { toBase64, fromBase64 } from './crypto';
+import { STORES, idbGet, idbPut } from './idb';
+import { withLock } from './locks';
+import { RatchetState, generateDHKeyPair, exportRawPublicKey, dh, hkdf, concatBytes, initRatchetAsSender, initRatchetAsReceiver } from './ratchet';
+
+const X3DH_INFO = new TextEncoder().encode('VaultChat X3DH');
+const SIGNED_PREKEY_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+const SIGNED_PREKEYS_KEPT = 3;
+const ONE_TIME_PREKEY_MIN = 10;
+const ONE_TIME_PREKEY_BATCH = 25;
+
+interface SignedPreKey {
+  id: number;
+  keyPair: CryptoKeyPair;
+  signature: string;
+  createdAt: number;
+}
+
+export interface LocalIdentity {
+  deviceId: string;
+  identityKey: CryptoKeyPair;
+  identityPub: string;
+  signingKey: CryptoKeyPair;
+  signingPub: string;
+  signedPreKeys: SignedPreKey[]; // newest first
+  oneTimePreKeys: { [id: number]: CryptoKeyPair };
+  nextPreKeyId: number;
+}
+
+// Sent alongside ratchet messages until the responder has replied
+export interface PreKeyHeader {
+  ik: string; // initiator identity key
+  ek: string; // initiator ephemeral key
+  spk: number; // responder signed prekey id
+  opk: number | null; // responder one-time prekey id
+}
+
+export async function loadIdentity(userId: string): Promise<LocalIdentity | null> {
+  return (await idbGet<LocalIdentity>(STORES.identity, userId)) ?? null;
+}
+
+async function saveIdentity(userId: string, identity: LocalIdentity): Promise<void> {
+  await idbPut(STORES.identity, userId, identity);
+}
+
+// Every load-modify-save of the identity record runs under this, so rotating
+// or topping up prekeys can't undo a one-time prekey being consumed, or the
+// other way round
+const withIdentityLock = <T>(userId: string, fn: () => Promise<T>) => withLock(`identity:${userId}`, fn);
+
+async function generateSignedPreKey(id: number, signingKey: CryptoKey): Promise<SignedPreKey> {
+  const keyPair = await generateDHKeyPair();
+  const publicRaw = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, signingKey, publicRaw);
+  return { id, keyPair, signature: toBase64(signature), createdAt: Date.now() };
+}
+
+async function generateIdentity(): Promise<LocalIdentity> {
+  const identityKey = await generateDHKeyPair();
+  const signingKey = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+  return {
+    deviceId: crypto.randomUUID(),
+    identityKey,
+    identityPub: await exportRawPublicKey(identityKey.publicKey),
+    signingKey,
+    signingPub: await exportRawPublicKey(signingKey.publicKey),
+    signedPreKeys: [await generateSignedPreKey(1, signingKey.privateKey)],
+    oneTimePreKeys: {},
+    nextPreKeyId: 2,
+  };
+}
+
+// Human-readable label for the devices list, e.g. "Firefox on Linux"
+function describeDevice(): string {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge' : /Firefox\//.test(ua) ? 'Firefox' : /Chrome\//.test(ua) ? 'Chrome' : /Safari\//.test(ua) ? 'Safari' : 'Browser';
+  const os = /Android/.test(ua) ? 'Android' : /iPhone|iPad/.test(ua) ? 'iOS' : /Mac OS/.test(ua) ? 'macOS' : /Windows/.test(ua) ? 'Windows' : /Linux/.test(ua) ? 'Linux' : 'unknown OS';
+  return `${browser} on ${os}`;
+}
+
+async function publishDevice(userId: string, identity: LocalIdentity): Promise<void> {
+  const spk = identity.signedPreKeys[0];
+  const { error } = await supabase.from('devices').upsert({
+    id: identity.deviceId,
+    user_id: userId,
+    name: describeDevice(),
+    identity_key: identity.identityPub,
+    signing_key: identity.signingPub,
+    signed_prekey_id: spk.id,
+    signed_prekey: await exportRawPublicKey(spk.keyPair.publicKey),
+    signed_prekey_signature: spk.signature,
+  });
+  if (error) throw error;
+}
+
+// Called from ensureIdentity, with the identity lock held
+async function replenishOneTimePreKeys(userId: string, identity: LocalIdentity): Promise<void> {
+  const { count } = await supabase
+    .from('one_time_prekeys')
+    .select('key_id', { count: 'exact', head: true })
+    .eq('device_id', identity.deviceId);
+  if (count === null || count >= ONE_TIME_PREKEY_MIN) return;
+
+  const rows: { device_id: string; user_id: string; key_id: number; public_key: string }[] = [];
+  for (let i = 0; i < ONE_TIME_PREKEY_BATCH; i++) {
+    const id = identity.nextPreKeyId++;
+    const keyPair = await generateDHKeyPair();
+    identity.oneTimePreKeys[id] = keyPair;
+    rows.push({ device_id: identity.deviceId, user_id: userId, key_id: id, public_key: await exportRawPublicKey(keyPair.publicKey) });
+  }
+  // Persist private halves before publishing so a claimed key is never missing locally
+  await saveIdentity(userId, identity);
+  const { error } = await supabase.from('one_time_prekeys').insert(rows);
+  if (error) throw error;
+}
+
+const pendingIdentity = new Map<string, Promise<LocalIdentity>>();
+
+// Load this device's identity, creating and registering it on first use. Also
+// rotates the signed prekey and tops up the one-time prekey pool.
+export function ensureIdentity(userId: string): Promise<LocalIdentity> {
+  let pending = pendingIdentity.get(userId);
+  if (!pending) {
+    pending = withIdentityLock(userId, async () => {
+      let identity = await loadIdentity(userId);
+      let dirty = false;
+      if (!identity) {
+        identity = await generateIdentity();
+        dirty = true;
+      } else if (!identity.deviceId) {
+        // Identity created before per-device keys: register it as a device
+        identity.deviceId = crypto.randomUUID();
+        dirty = true;
+      } else if (Date.now() - identity.signedPreKeys[0].createdAt > SIGNED_PREKEY_MAX_AGE) {
+        const spk = await generateSignedPreKey(identity.nextPreKeyId++, identity.signingKey.privateKey);
+        identity.signedPreKeys = [spk, ...identity.signedPreKeys].slice(0, SIGNED_PREKEYS_KEPT);
+        dirty = true;
+      }
+
+      if (!dirty) {
+        const { data: published } = await supabase
+          .from('devices')
+          .select('identity_key, signed_prekey_id')
+          .eq('id', identity.deviceId)
+          .maybeSingle();
+        dirty = published?.identity_key !== identity.identityPub || published?.signed_prekey_id !== identity.signedPreKeys[0].id;
+      }
+      if (dirty) {
+        await saveIdentity(userId, identity);
+        await publishDevice(userId, identity);
+      } else {
+        await supabase.from('devices').update({ last_seen_at: new Date().toISOString() }).eq('id', identity.deviceId);
+      }
+      await replenishOneTimePreKeys(userId, identity);
+      return identity;
+    }).finally(() => pendingIdentity.delete(userId));
+    pendingIdentity.set(userId, pending);
+  }
+  return pending;
+}
+
+async function deriveSharedSecret(...dhOutputs: ArrayBuffer[]): Promise<ArrayBuffer> {
+  const f = new Uint8Array(32).fill(0xff);
+  return hkdf(concatBytes(f, ...dhOutputs).buffer as ArrayBuffer, new ArrayBuffer(32), X3DH_INFO, 32);
+}
+
+// A device's published identity and signing keys
+export interface DeviceKeys {
+  id: string;
+  user_id: string;
+  identity_key: string;
+  signing_key: string;
+}
+
+// Registered devices of the given users
+export async function fetchDeviceKeys(userIds: string[]): Promise<DeviceKeys[]> {
+  const { data, error } = await supabase
+    .from('devices')
+    .select('id, user_id, identity_key, signing_key')
+    .in('user_id', userIds);
+  if (error) throw error;
+  return data;
+}
+
+// Initiator side: fetch the peer device's bundle, claim a one-time prekey and
+// derive the initial ratchet state. The bundle must still carry the keys the
+// caller checked.
+export async function initiateSession(identity: LocalIdentity, peer: DeviceKeys): Promise<{ ratchet: RatchetState; preKey: PreKeyHeader; remoteIdentity: string }> {
+  const { data: bundle } = await supabase
+    .from('devices')
+    .select('*')
+    .eq('id', peer.id)
+    .maybeSingle();
+  if (!bundle) throw new Error('Device is no longer registered');
+  if (bundle.identity_key !== peer.identity_key || bundle.signing_key !== peer.signing_key) {
+    throw new Error('Device keys changed while sending');
+  }
+
+  const signingKey = await crypto.subtle.importKey(
+    'raw',
+    fromBase64(bundle.signing_key) as BufferSource,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  );
+  const validSignature = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signingKey,
+    fromBase64(bundle.signed_prekey_signature) as BufferSource,
+    fromBase64(bundle.signed_prekey) as BufferSource
+  );
+  if (!validSignature) throw new Error('Invalid signed prekey signature');
+
+  const { data: claimed } = await supabase.rpc('claim_one_time_prekey', { target_device: peer.id });
+  const opk = claimed?.[0] ?? null;
+
+  const ek = await generateDHKeyPair();
+  const dhOutputs = [
+    await dh(identity.identityKey.privateKey, bundle.signed_prekey),
+    await dh(ek.privateKey, bundle.identity_key),
+    await dh(ek.privateKey, bundle.signed_prekey),
+  ];
+  if (opk) dhOutputs.push(await dh(ek.privateKey, opk.public_key));
+
+  const sk = await deriveSharedSecret(...dhOutputs);
+  const ad = concatBytes(fromBase64(identity.identityPub), fromBase64(bundle.identity_key)).buffer as ArrayBuffer;
+  return {
+    ratchet: await initRatchetAsSender(sk, bundle.signed_prekey, ad),
+    preKey: {
+      ik: identity.identityPub,
+      ek: await exportRawPublicKey(ek.publicKey),
+      spk: bundle.signed_prekey_id,
+      opk: opk?.key_id ?? null,
+    },
+    remoteIdentity: bundle.identity_key,
+  };
+}
+
+// Responder side: rebuild the same shared secret from our prekeys
+export async function respondToSession(identity: LocalIdentity, preKey: PreKeyHeader): Promise<RatchetState> {
+  const spk = identity.signedPreKeys.find(k => k.id === preKey.spk);
+  if (!spk) throw new Error('Unknown signed prekey');
+  const opk = preKey.opk !== null ? identity.oneTimePreKeys[preKey.opk] : null;
+  if (preKey.opk !== null && !opk) throw new Error('One-time prekey already used');
+
+  const dhOutputs = [
+    await dh(spk.keyPair.privateKey, preKey.ik),
+    await dh(identity.identityKey.privateKey, preKey.ek),
+    await dh(spk.keyPair.privateKey, preKey.ek),
+  ];
+  if (opk) dhOutputs.push(await dh(opk.privateKey, preKey.ek));
+
+  const sk = await deriveSharedSecret(...dhOutputs);
+  const ad = concatBytes(fromBase64(preKey.ik), fromBase64(identity.identityPub)).buffer as ArrayBuffer;
+  return initRatchetAsReceiver(sk, spk.keyPair, ad);
+}
+
+// Delete a one-time prekey once a session built from it has decrypted a message
+export async function consumeOneTimePreKey(userId: string, id: number | null): Promise<void> {
+  if (id === null) return;
+  await withIdentityLock(userId, async () => {
+    const identity = await loadIdentity(userId);
+    if (!identity?.oneTimePreKeys[id]) return;
+    delete identity.oneTimePreKeys[id];
+    await saveIdentity(userId, identity);
+  });
+}
@@ -1,26 +1,49 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-import { generateKeyPair, exportPublicKey, storePrivateKey } from '@/lib/crypto';
+import { useAuth } from '@/lib/auth-context';
+import { generateKeyPair, exportPublicKey, storePrivateKey, hasPrivateKey } from '@/lib/crypto';
+import { KeyBackup, MIN_RECOVERY_LENGTH, fetchKeyBackup, createKeyBackup, restoreKeyBackup } from '@/lib/key-backup';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { LockKeyhole, Shield, UserPlus, LogIn } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { LockKeyhole, Shield, UserPlus, LogIn, KeyRound } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
 
+// Only in-app paths, so a crafted link can't send the user off-site
+function redirectTarget(param: string | null): string {
+  return param && param.startsWith('/') && !param.startsWith('//') && !param.startsWith('/\\') ? param : '/';
+}
+
 export default function Auth() {
   const [isSignup, setIsSignup] = useState(false);
   const [email, setEmail] = useState('');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
+  // Opt-in key backup at signup, under its own passphrase
+  const [backupKeys, setBackupKeys] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupConfirm, setBackupConfirm] = useState('');
+  // Set when the only backup for this account needs the recovery passphrase
+  const [pendingRecovery, setPendingRecovery] = useState<{ userId: string; backup: KeyBackup; vaultKey: CryptoKey } | null>(null);
+  const [recoveryPassphrase, setRecoveryPassphrase] = useState('');
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const redirect = redirectTarget(searchParams.get('redirect'));
+  const { unlock } = useAuth();
 
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !username || !password) return;
     if (username.length < 3) { toast.error('Username must be at least 3 characters'); return; }
     if (password.length < 6) { toast.error('Password must be at least 6 characters'); return; }
+    if (backupKeys) {
+      if (backupPassphrase.length < MIN_RECOVERY_LENGTH) { toast.error(`Recovery passphrase must be at least ${MIN_RECOVERY_LENGTH} characters`); return; }
+      if (backupPassphrase !== backupConfirm) { toast.error('Passphrases do not match'); return; }
+      if (backupPassphrase === password) { toast.error('Recovery passphrase must differ from your password'); return; }
+    }
 
     setLoading(true);
     try {
@@ -37,17 +60,22 @@ export default function Auth() {
       if (error) throw error;
       if (!data.user) throw new Error('Signup failed');
 
-      // Store encrypted private key in IndexedDB
-      await storePrivateKey(data.user.id, keyPair.privateKey, password);
-      localStorage.setItem('_kp', password);
+      // Open the vault and store the private key encrypted under it
+      const vaultKey = await unlock(password, data.user.id);
+      await storePrivateKey(data.user.id, keyPair.privateKey, vaultKey);
+      if (backupKeys) {
+        await createKeyBackup(data.user.id, vaultKey, backupPassphrase).catch(() => {
+          toast.error('Key backup failed. You can retry it from the key backup menu.');
+        });
+      }
 
       // Store public key in profile
       await supabase.from('profiles').update({ public_key: publicKeyStr }).eq('user_id', data.user.id);
 
       toast.success('Account created! Keys generated securely.');
-      navigate('/');
-    } catch (err: any) {
-      toast.error(err.message || 'Signup failed');
+      navigate(redirect);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Signup failed');
     } finally {
       setLoading(false);
     }
@@ -58,19 +86,94 @@ export default function Auth() {
     if (!email || !password) return;
     setLoading(true);
     try {
-      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
       if (error) throw error;
-      // Password is needed to decrypt private key later - stored locally
-      localStorage.setItem('_kp', password);
+      // Derive the vault key now; the password itself is never stored
+      const vaultKey = await unlock(password, data.user.id);
+
+      // New device: pull the private key from the server backup if there is one
+      if (!(await hasPrivateKey(data.user.id))) {
+        const backup = await fetchKeyBackup(data.user.id);
+        if (backup?.kind === 'recovery') {
+          setPendingRecovery({ userId: data.user.id, backup, vaultKey });
+          return;
+        }
+        if (backup) {
+          await restoreKeyBackup(data.user.id, backup, password, vaultKey);
+          toast.success('Keys restored from backup');
+        }
+      }
       toast.success('Welcome back!');
-      navigate('/');
-    } catch (err: any) {
-      toast.error(err.message || 'Login failed');
+      navigate(redirect);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRecovery = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingRecovery || !recoveryPassphrase) return;
+    setLoading(true);
+    try {
+      await restoreKeyBackup(pendingRecovery.userId, pendingRecovery.backup, recoveryPassphrase, pendingRecovery.vaultKey);
+      toast.success('Keys restored from backup');
+      navigate(redirect);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not restore keys');
     } finally {
       setLoading(false);
     }
   };
 
+  if (pendingRecovery) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center bg-background px-4">
+        <motion.form
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          onSubmit={handleRecovery}
+          className="w-full max-w-sm space-y-6"
+        >
+          <div className="text-center space-y-2">
+            <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-2xl bg-primary/10">
+              <KeyRound className="h-8 w-8 text-primary" />
+            </div>
+            <h1 className="text-2xl font-bold tracking-tight text-foreground">Restore your keys</h1>
+            <p className="text-sm text-muted-foreground">
+              This device has no keys yet. Enter your recovery passphrase to restore your original account key from
+              your encrypted backup. This only recovers messages from before per-device encryption.
+            </p>
+          </div>
+          <Input
+            type="password"
+            placeholder="Recovery passphrase"
+            value={recoveryPassphrase}
+            onChange={e => setRecoveryPassphrase(e.target.value)}
+            className="h-12 bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+            autoFocus
+            required
+          />
+          <Button type="submit" className="h-12 w-full text-base font-semibold" disabled={loading}>
+            {loading ? (
+              <div className="h-5 w-5 animate-spin rounded-full border-2 border-primary-foreground border-t-transparent" />
+            ) : 'Restore keys'}
+          </Button>
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => navigate(redirect)}
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Skip – older messages will stay unreadable
+            </button>
+          </div>
+        </motion.form>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-background px-4">
       <motion.div
@@ -148,6 +251,40 @@ export default function Auth() {
               )}
             </Button>
 
+            {isSignup && (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Checkbox checked={backupKeys} onCheckedChange={v => setBackupKeys(v === true)} />
+                  Back up my account key, encrypted with a recovery passphrase
+                </label>
+                {backupKeys && (
+                  <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} className="space-y-3">
+                    <Input
+                      type="password"
+                      placeholder="Recovery passphrase (not your password)"
+                      value={backupPassphrase}
+                      onChange={e => setBackupPassphrase(e.target.value)}
+                      className="h-12 bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+                      required
+                      minLength={MIN_RECOVERY_LENGTH}
+                    />
+                    <Input
+                      type="password"
+                      placeholder="Confirm passphrase"
+                      value={backupConfirm}
+                      onChange={e => setBackupConfirm(e.target.value)}
+                      className="h-12 bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      A restore only recovers messages from before per-device encryption; newer messages stay on the
+                      devices they were sent to.
+                    </p>
+                  </motion.div>
+                )}
+              </div>
+            )}
+
             {isSignup && (
               <div className="flex items-center gap-2 rounded-lg bg-primary/5 p-3 text-xs text-primary">
                 <LockKeyhole className="h-4 w-4 shrink-0" />
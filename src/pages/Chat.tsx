@@ -1,43 +1,213 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { formatDistanceToNow } from 'date-fns';
 import { useAuth } from '@/lib/auth-context';
-import { encryptMessage, decryptMessage, importPublicKey, retrievePrivateKey } from '@/lib/crypto';
+import { usePresence } from '@/lib/presence';
+import { retrievePrivateKey } from '@/lib/crypto';
+import { ensureIdentity } from '@/lib/x3dh';
+import { encryptSessionMessage } from '@/lib/sessions';
+import { rememberPlaintext, forgetPlaintext } from '@/lib/plaintexts';
+import { signMessage } from '@/lib/signatures';
+import {
+  DecryptedMessage,
+  MessageRow,
+  fetchMessagePage,
+  fetchMessagesAfter,
+  fetchReadStates,
+  fetchDeletedIds,
+  markMessagesRead,
+  decryptRow,
+  decryptRows,
+  mergeMessages,
+  replyReference,
+  formatTime,
+  PAGE_SIZE,
+} from '@/lib/messages';
+import { loadCachedConversation, saveCachedConversation } from '@/lib/message-cache';
+import { enqueueMessage, loadOutboxMessages } from '@/lib/outbox';
+import { KeyChangeStatus, checkVerified, checkRecipientKeys, acknowledgeKeyChange } from '@/lib/safety-number';
+import { uploadAttachment } from '@/lib/attachments';
+import { Envelope, ENVELOPE_VERSION, encodeEnvelope, isSilentEnvelope } from '@/lib/envelope';
+import UnlockVault from '@/components/UnlockVault';
+import SafetyNumberDialog from '@/components/SafetyNumberDialog';
+import KeyChangeBanner from '@/components/KeyChangeBanner';
+import { TIMER_OPTIONS, timerLabel, timerEnvelope, readTimer, latestTimer, loadTimer, saveTimer } from '@/lib/disappearing';
+import { deleteAttachment } from '@/lib/attachments';
+import MessageBubble from '@/components/MessageBubble';
+import EditHistoryDialog from '@/components/EditHistoryDialog';
+import DeleteMessageDialog from '@/components/DeleteMessageDialog';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useMessagePaging } from '@/hooks/use-message-paging';
+import { useTimelineScroll } from '@/hooks/use-timeline-scroll';
+import { useComposer } from '@/hooks/use-composer';
+import { useMessageDeletion } from '@/hooks/use-message-deletion';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
-import { ArrowLeft, LockKeyhole, Send, Check, CheckCheck } from 'lucide-react';
-import { motion } from 'framer-motion';
+import { ArrowLeft, LockKeyhole, Send, ShieldCheck, Shield, ShieldAlert, Paperclip, Pencil, Reply, X, Timer } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
 
-interface DecryptedMessage {
-  id: string;
-  sender_id: string;
-  text: string;
-  created_at: string;
-  read_at: string | null;
-}
+// Typing events are broadcast at most this often while typing, and the
+// indicator hides if no event follows within the timeout
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 5000;
 
 export default function Chat() {
   const { friendId } = useParams<{ friendId: string }>();
-  const { user } = useAuth();
+  const { user, vaultKey } = useAuth();
+  const { showPresence, isOnline } = usePresence();
   const navigate = useNavigate();
   const [messages, setMessages] = useState<DecryptedMessage[]>([]);
-  const [newMessage, setNewMessage] = useState('');
-  const [friendProfile, setFriendProfile] = useState<{ username: string; public_key: string | null } | null>(null);
-  const [myProfile, setMyProfile] = useState<{ public_key: string | null } | null>(null);
+  const [friendProfile, setFriendProfile] = useState<{ username: string } | null>(null);
   const [privateKey, setPrivateKey] = useState<CryptoKey | null>(null);
+  const [keysReady, setKeysReady] = useState(false);
+  const [verified, setVerified] = useState(false);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+  const [keyChange, setKeyChange] = useState<KeyChangeStatus>({ changed: false, changes: [] });
+  const [ownKeyChange, setOwnKeyChange] = useState(false);
   const [sending, setSending] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [loading, setLoading] = useState(true);
+  const loadedAtRef = useRef(Date.now());
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const [friendTyping, setFriendTyping] = useState(false);
+  const [friendLastSeen, setFriendLastSeen] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [timerSeconds, setTimerSeconds] = useState(0);
+  const friendOnline = !!friendId && isOnline(friendId);
 
-  useEffect(() => {
+  const {
+    newMessage, setNewMessage, editingId, replyTo, setReplyTo, edits, reactions,
+    latestBody, draftEnvelope, attachmentEnvelope, clearDraft, startReply, startEdit, cancelEdit, react,
+  } = useComposer(messages, envelope => sendEnvelope(envelope));
+  const {
+    hiddenIds, deleteTarget, setDeleteTarget, canDeleteForEveryone, deleteMessage, applyTombstones,
+  } = useMessageDeletion({ userId: user?.id, conversationId: friendId, setMessages });
+  const { hasMore, setHasMore, loadingOlder, prependRef, loadOlderMessages, loadUntil } = useMessagePaging({
+    userId: user?.id,
+    conversation: friendId ? { friendId } : null,
+    privateKey,
+    messages,
+    setMessages,
+    scrollRef,
+  });
+  const { deliver, discardMessage } = useOutbox({ userId: user?.id, conversationId: friendId, enabled: keysReady, setMessages });
+
+  // The friend's and our own devices, pinned and checked for changes
+  const checkKeys = useCallback(async () => {
+    const checked = await checkRecipientKeys(user!.id, [friendId!]);
+    setKeyChange(checked.statuses[friendId!]);
+    setOwnKeyChange(checked.statuses[user!.id].changed);
+    return checked;
+  }, [user, friendId]);
+
+  const markAsRead = useCallback(async (messageIds?: string[]) => {
     if (!user || !friendId) return;
-    init();
+    // Receipts are retried the next time the chat opens
+    await markMessagesRead(friendId, messageIds).catch(() => {});
   }, [user, friendId]);
 
+  const loadInitialMessages = useCallback(async (pk: CryptoKey | null) => {
+    try {
+      const rows = await fetchMessagePage(user!.id, { friendId: friendId! });
+      setMessages(await decryptRows(user!.id, rows, pk));
+      setHasMore(rows.length === PAGE_SIZE);
+    } catch {
+      toast.error('Could not load messages');
+    }
+  }, [user, friendId, setHasMore]);
+
+  // Fetch only rows newer than the cached ones, and refresh read receipts
+  // of our cached messages that were still unread
+  const syncNewMessages = useCallback(async (cachedMessages: DecryptedMessage[], pk: CryptoKey | null) => {
+    const newest = cachedMessages[cachedMessages.length - 1];
+    const unreadIds = cachedMessages.filter(m => m.sender_id === user!.id && !m.read_at).map(m => m.id);
+    try {
+      const [rows, readStates, deletedIds] = await Promise.all([
+        fetchMessagesAfter(user!.id, { friendId: friendId! }, newest),
+        fetchReadStates(unreadIds),
+        fetchDeletedIds(user!.id, { friendId: friendId! }, cachedMessages[0].created_at),
+      ]);
+      const newer = await decryptRows(user!.id, rows, pk);
+      const readAt = new Map(readStates.map(r => [r.id, r.read_at]));
+      setMessages(prev => mergeMessages(
+        prev.map(m => readAt.get(m.id) ? { ...m, read_at: readAt.get(m.id)! } : m),
+        newer
+      ));
+      applyTombstones(deletedIds);
+    } catch {
+      // Offline: keep showing the cached conversation
+    }
+  }, [user, friendId, applyTombstones]);
+
+  const init = useCallback(async () => {
+    setLoading(true);
+
+    // Render the local copy straight away, then catch up with the server
+    loadTimer(user!.id, friendId!).then(setTimerSeconds).catch(() => {});
+    const cached = await loadCachedConversation(user!.id, friendId!, vaultKey!).catch(() => null);
+    if (cached) {
+      setMessages(cached.messages);
+      setHasMore(cached.hasMore);
+      if (cached.friendUsername) setFriendProfile({ username: cached.friendUsername });
+      setLoading(false);
+    }
+
+    const { data: fProfile } = await supabase.from('profiles').select('username').eq('user_id', friendId!).maybeSingle();
+    if (fProfile) setFriendProfile(fProfile);
+    checkVerified(user!.id, friendId!).then(setVerified).catch(() => setVerified(false));
+
+    // Ratchet identity and prekeys for this device, registered before our own
+    // devices are checked so a new device isn't reported as a key change
+    try {
+      await ensureIdentity(user!.id);
+    } catch {
+      toast.error('Could not set up encryption keys.');
+    }
+    // Checked again before every send
+    await checkKeys().catch(() => {});
+
+    // Legacy RSA key, only needed for messages sent before ratchet sessions
+    let pk: CryptoKey | null = null;
+    try {
+      pk = await retrievePrivateKey(user!.id, vaultKey!);
+      setPrivateKey(pk);
+    } catch {
+      toast.error('Could not decrypt your keys. Please unlock again.');
+    }
+    if (cached?.messages.length) {
+      await syncNewMessages(cached.messages, pk);
+    } else {
+      await loadInitialMessages(pk);
+    }
+    const queued = await loadOutboxMessages(user!.id, friendId!).catch(() => []);
+    if (queued.length) setMessages(prev => mergeMessages(prev, queued));
+    setKeysReady(true);
+    setLoading(false);
+    markAsRead();
+  }, [user, friendId, vaultKey, setHasMore, checkKeys, syncNewMessages, loadInitialMessages, markAsRead]);
+
+  useEffect(() => {
+    if (!user || !friendId || !vaultKey) return;
+    init();
+  }, [user, friendId, vaultKey, init]);
+
   // Subscribe to new messages
   useEffect(() => {
-    if (!user || !friendId || !privateKey) return;
+    if (!user || !friendId || !keysReady) return;
 
     // Create a stable channel name based on both user IDs (sorted alphabetically)
     const roomId = [user.id, friendId].sort().join('-');
@@ -48,7 +218,7 @@ export default function Chat() {
         schema: 'public',
         table: 'messages',
       }, async (payload) => {
-        const msg = payload.new as any;
+        const msg = payload.new as MessageRow;
         
         // Match messages for this specific conversation
         const isFromFriend = msg.sender_id === friendId && msg.receiver_id === user.id;
@@ -56,20 +226,13 @@ export default function Chat() {
         
         if (!isFromFriend && !isFromMe) return;
 
-        try {
-          const text = await decryptMessage(msg.ciphertext, msg.encrypted_key, msg.iv, privateKey, user.id);
-          setMessages(prev => {
-            if (prev.find(m => m.id === msg.id)) return prev;
-            return [...prev, { id: msg.id, sender_id: msg.sender_id, text, created_at: msg.created_at, read_at: msg.read_at }];
-          });
-          if (msg.sender_id === friendId) markAsRead([msg.id]);
-        } catch (e) {
-          console.error("Encryption mismatch or error:", e);
-          // Only show 'Encrypted' if it's NOT already in our list (sender already has the plaintext)
-          setMessages(prev => {
-            if (prev.find(m => m.id === msg.id)) return prev;
-            return [...prev, { id: msg.id, sender_id: msg.sender_id, text: '🔒 Encrypted message', created_at: msg.created_at, read_at: msg.read_at }];
-          });
+        const decrypted = await decryptRow(user.id, msg, privateKey);
+        // In (created_at, id) order, since rows can arrive out of order; the
+        // sender already added its own copy with the plaintext
+        setMessages(prev => mergeMessages(prev, [decrypted]));
+        if (msg.sender_id === friendId) {
+          setFriendTyping(false);
+          markAsRead([msg.id]);
         }
       })
       .on('postgres_changes', {
@@ -77,146 +240,253 @@ export default function Chat() {
         schema: 'public',
         table: 'messages',
       }, (payload) => {
-        const updatedMsg = payload.new as any;
+        const updatedMsg = payload.new as MessageRow;
+        if (updatedMsg.deleted_at) {
+          applyTombstones([updatedMsg.id]);
+          return;
+        }
         setMessages(prev => prev.map(m => m.id === updatedMsg.id ? { ...m, read_at: updatedMsg.read_at } : m));
       })
+      // Edit revisions of a message deleted for everyone are removed outright
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'messages',
+      }, (payload) => {
+        const { id } = payload.old as { id?: string };
+        if (!id) return;
+        setMessages(prev => prev.filter(m => m.id !== id));
+        forgetPlaintext(user!.id, id).catch(() => {});
+      })
+      // Typing events are broadcast only and never stored
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (payload.userId !== friendId) return;
+        clearTimeout(typingTimeoutRef.current);
+        setFriendTyping(payload.typing);
+        if (payload.typing) typingTimeoutRef.current = setTimeout(() => setFriendTyping(false), TYPING_TIMEOUT_MS);
+      })
       .subscribe();
+    channelRef.current = channel;
 
-    return () => { supabase.removeChannel(channel); };
-  }, [user, friendId, privateKey]);
+    return () => {
+      channelRef.current = null;
+      clearTimeout(typingTimeoutRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [user, friendId, privateKey, keysReady, applyTombstones, markAsRead]);
 
+  // Follow timer changes from either side, remembering the latest locally
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (!user || !friendId) return;
+    const seconds = latestTimer(messages);
+    if (seconds === null || seconds === timerSeconds) return;
+    setTimerSeconds(seconds);
+    saveTimer(user.id, friendId, seconds).catch(() => {});
+  }, [user, friendId, messages, timerSeconds]);
 
-  const init = async () => {
-    setLoading(true);
-    // Load profiles
-    const [{ data: fProfile }, { data: mProfile }] = await Promise.all([
-      supabase.from('profiles').select('username, public_key').eq('user_id', friendId!).single(),
-      supabase.from('profiles').select('public_key').eq('user_id', user!.id).single()
-    ]);
-
-    setFriendProfile(fProfile);
-    setMyProfile(mProfile);
-
-    // Retrieve private key
-    const password = localStorage.getItem('_kp');
-    if (password) {
-      try {
-        const pk = await retrievePrivateKey(user!.id, password);
-        setPrivateKey(pk);
-        if (pk) await loadMessages(pk);
-      } catch {
-        toast.error('Could not decrypt your keys. Please log in again.');
+  // Remove disappearing messages from view as they expire
+  useEffect(() => {
+    if (!user) return;
+    const expiries = messages.filter(m => m.expires_at).map(m => new Date(m.expires_at!).getTime());
+    if (expiries.length === 0) return;
+
+    const removeExpired = () => {
+      const now = Date.now();
+      const expired = messages.filter(m => m.expires_at && new Date(m.expires_at).getTime() <= now);
+      if (expired.length === 0) return;
+      const ids = new Set(expired.map(m => m.id));
+      setMessages(prev => prev.filter(m => !ids.has(m.id)));
+      for (const msg of expired) {
+        forgetPlaintext(user.id, msg.id).catch(() => {});
+        // The key is gone with the message; clean up our own ciphertext too
+        if (msg.sender_id === user.id && msg.envelope.meta.attachment) {
+          deleteAttachment(msg.envelope.meta.attachment).catch(() => {});
+        }
       }
-    } else {
-      toast.error('Session expired. Please log in again.');
-    }
-    setLoading(false);
-    markAsRead();
+    };
+
+    const timer = setTimeout(removeExpired, Math.max(0, Math.min(...expiries) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [user, messages]);
+
+  // Last-seen time, refreshed whenever the friend goes offline
+  useEffect(() => {
+    if (!friendId || !showPresence || friendOnline) return;
+    supabase.from('last_seen').select('seen_at').eq('user_id', friendId).maybeSingle()
+      .then(({ data }) => setFriendLastSeen(data?.seen_at ?? null));
+  }, [friendId, showPresence, friendOnline]);
+
+  // Persist the conversation locally (debounced) whenever it changes
+  useEffect(() => {
+    if (loading || !user || !friendId || !vaultKey) return;
+    const timer = setTimeout(() => {
+      saveCachedConversation(user.id, friendId, vaultKey, {
+        friendUsername: friendProfile?.username ?? null,
+        // Queued messages live in the outbox; hidden ones are not kept at all
+        messages: messages.filter(m => !m.status && !hiddenIds.has(m.id)),
+        hasMore,
+      }).catch(e => console.error('Failed to cache conversation', e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [loading, user, friendId, vaultKey, friendProfile, messages, hasMore, hiddenIds]);
+
+  const sendTyping = (typing: boolean) => {
+    channelRef.current?.send({ type: 'broadcast', event: 'typing', payload: { userId: user!.id, typing } });
   };
 
-  const markAsRead = async (messageIds?: string[]) => {
-    if (!user || !friendId) return;
-    
-    let query = supabase
-      .from('messages')
-      .update({ read_at: new Date().toISOString() })
-      .eq('receiver_id', user.id)
-      .eq('sender_id', friendId)
-      .is('read_at', null);
-      
-    if (messageIds) {
-      query = query.in('id', messageIds);
+  const handleInputChange = (value: string) => {
+    setNewMessage(value);
+    const now = Date.now();
+    if (value && now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      sendTyping(true);
     }
-    
-    await query;
   };
 
-  const loadMessages = async (pk: CryptoKey) => {
-    const { data } = await supabase
-      .from('messages')
-      .select('*')
-      .or(`and(sender_id.eq.${user!.id},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${user!.id})`)
-      .order('created_at', { ascending: true });
-
-    if (!data) return;
-
-    const decrypted: DecryptedMessage[] = [];
-    for (const msg of data) {
-      try {
-        const text = await decryptMessage(msg.ciphertext, msg.encrypted_key, msg.iv, pk, user!.id);
-        decrypted.push({ id: msg.id, sender_id: msg.sender_id, text, created_at: msg.created_at, read_at: msg.read_at });
-      } catch {
-        decrypted.push({ 
-          id: msg.id, 
-          sender_id: msg.sender_id, 
-          text: '🔒 Unable to decrypt', 
-          created_at: msg.created_at, 
-          read_at: msg.read_at 
-        });
-      }
+  // Encrypt, sign and queue one envelope; false if sending was refused
+  const sendEnvelope = async (envelope: Envelope): Promise<boolean> => {
+    // Never encrypt to keys that changed since the user last looked
+    const { devices, statuses } = await checkKeys();
+    if (statuses[friendId!].changed || statuses[user!.id].changed) {
+      toast.error('Safety number changed. Review it before sending.');
+      return false;
     }
-    setMessages(decrypted);
+
+    const plaintext = encodeEnvelope(envelope);
+    const encrypted = await encryptSessionMessage(user!.id, plaintext, [friendId!], devices);
+
+    // Timer changes themselves never expire, so the current timer can be recovered
+    const expiresAt = timerSeconds && envelope.type !== 'system'
+      ? new Date(Date.now() + timerSeconds * 1000).toISOString()
+      : null;
+
+    // Our own copy is never sealed for us, so keep the plaintext before the
+    // realtime INSERT for this row can arrive
+    const id = crypto.randomUUID();
+    await rememberPlaintext(user!.id, id, plaintext, expiresAt);
+
+    const row = {
+      id,
+      sender_id: user!.id,
+      receiver_id: friendId!,
+      ciphertext: encrypted.ciphertext,
+      encrypted_key: JSON.stringify(encrypted.encryptedKeys),
+      iv: encrypted.iv,
+      sender_device_id: encrypted.senderDeviceId,
+      version: ENVELOPE_VERSION,
+      silent: isSilentEnvelope(envelope),
+      revises: envelope.type === 'edit' ? envelope.meta.target! : null,
+      expires_at: expiresAt,
+    };
+    const signature = await signMessage(user!.id, row);
+    const queuedAt = await enqueueMessage({ ...row, signature });
+
+    atBottomRef.current = true;
+    setMessages(prev => [...prev, {
+      id,
+      sender_id: user!.id,
+      envelope,
+      created_at: queuedAt,
+      read_at: null,
+      expires_at: row.expires_at,
+      signature: 'valid',
+      status: 'pending',
+    }]);
+    deliver(id);
+    return true;
   };
 
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || sending) return;
-    
-    if (!friendProfile?.public_key) {
-      toast.error("This user hasn't set up encryption yet.");
-      return;
-    }
 
     setSending(true);
     try {
-      const pubKeys: { [id: string]: CryptoKey } = {};
-      const rKey = await importPublicKey(friendProfile.public_key);
-      pubKeys[friendId!] = rKey;
-      
-      if (myProfile?.public_key) {
-        const sKey = await importPublicKey(myProfile.public_key);
-        pubKeys[user!.id] = sKey;
+      if (await sendEnvelope(draftEnvelope())) {
+        clearDraft();
+        lastTypingSentRef.current = 0;
+        sendTyping(false);
       }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
 
-      const encrypted = await encryptMessage(newMessage.trim(), pubKeys);
-
-      const { data, error } = await supabase.from('messages').insert({
-        sender_id: user!.id,
-        receiver_id: friendId!,
-        ciphertext: encrypted.ciphertext,
-        encrypted_key: JSON.stringify(encrypted.encryptedKeys),
-        iv: encrypted.iv,
-      }).select().single();
-
-      if (error) throw error;
-
-      // Add to local messages if not already added by subscription
-      setMessages(prev => {
-        if (prev.find(m => m.id === data.id)) return prev;
-        return [...prev, {
-          id: data.id,
-          sender_id: user!.id,
-          text: newMessage.trim(),
-          created_at: data.created_at,
-          read_at: null,
-        }];
-      });
-      setNewMessage('');
-    } catch (err: any) {
-      toast.error('Failed to send message');
+  const sendAttachment = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || sending) return;
+
+    setSending(true);
+    try {
+      const attachment = await uploadAttachment(user!.id, file);
+      if (await sendEnvelope(attachmentEnvelope(attachment))) clearDraft();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send attachment');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const changeTimer = async (seconds: number) => {
+    if (seconds === timerSeconds || sending) return;
+    setSending(true);
+    try {
+      if (await sendEnvelope(timerEnvelope(seconds))) {
+        setTimerSeconds(seconds);
+        await saveTimer(user!.id, friendId!, seconds);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not change the timer');
     } finally {
       setSending(false);
     }
   };
 
-  const formatTime = (dateStr: string) => {
-    const d = new Date(dateStr);
-    return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const acceptFriendKeys = async () => {
+    await acknowledgeKeyChange(user!.id, friendId!);
+    setKeyChange(prev => ({ ...prev, changed: false }));
+  };
+
+  const acceptKeyChange = async () => {
+    if (keyChange.changed) await acceptFriendKeys();
+    if (ownKeyChange) {
+      await acknowledgeKeyChange(user!.id, user!.id);
+      setOwnKeyChange(false);
+    }
+  };
+
+  const handleVerifiedChange = (isVerified: boolean) => {
+    setVerified(isVerified);
+    if (isVerified && keyChange.changed) acceptFriendKeys();
   };
 
+  // Messages interleaved with key-change notices, in time order
+  const timeline = [
+    ...messages
+      .filter(msg => (msg.envelope.type === 'text' || msg.envelope.type === 'attachment') && !hiddenIds.has(msg.id))
+      .map(msg => ({ kind: 'message' as const, at: msg.created_at, id: msg.id, msg })),
+    ...messages
+      .filter(msg => readTimer(msg.envelope) !== null && !msg.deleted)
+      .map(msg => ({ kind: 'timer' as const, at: msg.created_at, id: msg.id, msg, seconds: readTimer(msg.envelope)! })),
+    ...keyChange.changes.map(at => ({ kind: 'notice' as const, at, id: `notice-${at}` })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  const { virtualizer, atBottomRef, highlightId, jumpToMessage, handleScroll } = useTimelineScroll({
+    timeline,
+    loading,
+    scrollRef,
+    prependRef,
+    loadOlderMessages,
+    loadUntil,
+  });
+
+  const nameOf = (userId: string) => (userId === user!.id ? 'You' : `@${friendProfile?.username}`);
+
+  if (!vaultKey) return <UnlockVault />;
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
@@ -226,7 +496,7 @@ export default function Chat() {
   }
 
   return (
-    <div className="flex min-h-screen flex-col bg-background">
+    <div className="flex h-[100dvh] flex-col bg-background">
       {/* Header */}
       <header className="glass-surface sticky top-0 z-10 border-b border-border px-2 py-3">
         <div className="flex items-center gap-2">
@@ -238,71 +508,202 @@ export default function Chat() {
           </div>
           <div className="flex-1">
             <p className="text-sm font-medium text-foreground">@{friendProfile?.username}</p>
+            {showPresence && (friendOnline || friendLastSeen) && (
+              <p className={`text-[10px] ${friendOnline ? 'text-primary' : 'text-muted-foreground'}`}>
+                {friendOnline ? 'online' : `last seen ${formatDistanceToNow(new Date(friendLastSeen!), { addSuffix: true })}`}
+              </p>
+            )}
             <p className="text-[10px] text-muted-foreground flex items-center gap-1">
               <LockKeyhole className="h-2.5 w-2.5 encryption-badge" />
-              End-to-end encrypted
+              End-to-end encrypted{verified && ' · Verified'}
+              {timerSeconds > 0 && ` · Disappearing after ${timerLabel(timerSeconds)}`}
             </p>
           </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <Timer className={`h-5 w-5 ${timerSeconds > 0 ? 'text-primary' : ''}`} />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Disappearing messages</DropdownMenuLabel>
+              <DropdownMenuRadioGroup value={String(timerSeconds)} onValueChange={v => changeTimer(Number(v))}>
+                {TIMER_OPTIONS.map(option => (
+                  <DropdownMenuRadioItem key={option.seconds} value={String(option.seconds)}>
+                    {option.label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="ghost" size="icon" onClick={() => setShowSafetyNumber(true)}>
+            {verified ? <ShieldCheck className="h-5 w-5 text-primary" /> : <Shield className="h-5 w-5" />}
+          </Button>
         </div>
       </header>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto px-3 py-4 space-y-2">
-        {/* Encryption notice */}
-        <div className="mb-4 flex justify-center">
-          <div className="rounded-lg bg-primary/5 px-3 py-2 text-center">
-            <p className="text-[11px] text-primary flex items-center gap-1 justify-center">
-              <LockKeyhole className="h-3 w-3" />
-              Messages are end-to-end encrypted. No one outside this chat can read them.
+      <AnimatePresence>
+        {friendTyping && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden border-b border-border bg-background"
+          >
+            <p className="flex items-center gap-1.5 px-4 py-1.5 text-xs text-muted-foreground">
+              <span className="flex gap-0.5">
+                {[0, 150, 300].map(delay => (
+                  <span
+                    key={delay}
+                    className="h-1.5 w-1.5 animate-bounce rounded-full bg-muted-foreground"
+                    style={{ animationDelay: `${delay}ms` }}
+                  />
+                ))}
+              </span>
+              @{friendProfile?.username} is typing…
             </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <SafetyNumberDialog
+        open={showSafetyNumber}
+        onOpenChange={setShowSafetyNumber}
+        contactId={friendId!}
+        contactUsername={friendProfile?.username}
+        onVerifiedChange={handleVerifiedChange}
+      />
+
+      <EditHistoryDialog
+        open={!!historyId}
+        onOpenChange={open => !open && setHistoryId(null)}
+        original={messages.find(m => m.id === historyId) ?? null}
+        edits={(historyId && edits.get(historyId)) || []}
+      />
+
+      <DeleteMessageDialog
+        open={!!deleteTarget}
+        onOpenChange={open => !open && setDeleteTarget(null)}
+        canDeleteForEveryone={!!deleteTarget && canDeleteForEveryone(deleteTarget)}
+        contactUsername={friendProfile?.username}
+        onDelete={deleteMessage}
+      />
+
+      {/* Messages */}
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto px-3 py-4">
+        {hasMore ? (
+          <div className="flex justify-center py-2">
+            {loadingOlder && <div className="h-5 w-5 animate-spin rounded-full border-2 border-primary border-t-transparent" />}
           </div>
-        </div>
+        ) : (
+          /* Encryption notice */
+          <div className="mb-4 flex justify-center">
+            <div className="rounded-lg bg-primary/5 px-3 py-2 text-center">
+              <p className="text-[11px] text-primary flex items-center gap-1 justify-center">
+                <LockKeyhole className="h-3 w-3" />
+                Messages are end-to-end encrypted. No one outside this chat can read them.
+              </p>
+            </div>
+          </div>
+        )}
 
-        {messages.map((msg, i) => {
-          const isMine = msg.sender_id === user!.id;
-          return (
-            <motion.div
-              key={msg.id}
-              initial={{ opacity: 0, y: 8 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: i * 0.005 }}
-              className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}
-            >
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map(virtualItem => {
+            const item = timeline[virtualItem.index];
+            return (
               <div
-                className={`max-w-[80%] rounded-2xl px-3.5 py-2 ${
-                  isMine
-                    ? 'chat-bubble-sent rounded-br-md'
-                    : 'chat-bubble-received rounded-bl-md'
-                }`}
+                key={virtualItem.key}
+                data-index={virtualItem.index}
+                ref={virtualizer.measureElement}
+                className="absolute left-0 top-0 w-full pb-2"
+                style={{ transform: `translateY(${virtualItem.start}px)` }}
               >
-                <p className="text-sm leading-relaxed break-words">{msg.text}</p>
-                <div className="mt-0.5 flex items-center justify-end gap-1">
-                  <p className={`text-[10px] ${isMine ? 'text-primary-foreground/60' : 'text-muted-foreground'}`}>
-                    {formatTime(msg.created_at)}
-                  </p>
-                  {isMine && (
-                    <div className={msg.read_at ? "text-blue-400" : "text-primary-foreground/40"}>
-                      {msg.read_at ? (
-                        <CheckCheck className="h-3.5 w-3.5" />
-                      ) : (
-                        <Check className="h-3.5 w-3.5" />
-                      )}
-                    </div>
-                  )}
-                </div>
+                {item.kind === 'timer' ? (
+                  <div className="flex justify-center py-1">
+                    <p className="rounded-lg bg-secondary px-3 py-1.5 text-[11px] text-muted-foreground flex items-center gap-1">
+                      <Timer className="h-3 w-3" />
+                      {item.msg.sender_id === user!.id ? 'You' : `@${friendProfile?.username}`}
+                      {item.seconds ? ` set disappearing messages to ${timerLabel(item.seconds)}` : ' turned off disappearing messages'}
+                      {' · '}{formatTime(item.at)}
+                    </p>
+                  </div>
+                ) : item.kind === 'notice' ? (
+                  <div className="flex justify-center py-1">
+                    <p className="rounded-lg bg-destructive/10 px-3 py-1.5 text-[11px] text-destructive flex items-center gap-1">
+                      <ShieldAlert className="h-3 w-3" />
+                      @{friendProfile?.username}'s safety number changed · {formatTime(item.at)}
+                    </p>
+                  </div>
+                ) : (
+                  <MessageBubble
+                    msg={item.msg}
+                    isMine={item.msg.sender_id === user!.id}
+                    animate={new Date(item.msg.created_at).getTime() > loadedAtRef.current}
+                    highlighted={highlightId === item.msg.id}
+                    nameOf={nameOf}
+                    edits={edits.get(item.msg.id)}
+                    reactions={reactions.get(item.msg.id)}
+                    myId={user!.id}
+                    onRetry={deliver}
+                    onDiscard={discardMessage}
+                    onEdit={() => startEdit(item.msg)}
+                    onShowHistory={() => setHistoryId(item.msg.id)}
+                    onDelete={() => setDeleteTarget(item.msg)}
+                    onReact={emoji => react(item.msg.id, emoji)}
+                    onReply={() => startReply(item.msg)}
+                    onJumpTo={jumpToMessage}
+                  />
+                )}
               </div>
-            </motion.div>
-          );
-        })}
-        <div ref={messagesEndRef} />
+            );
+          })}
+        </div>
       </div>
 
       {/* Input */}
       <div className="glass-surface sticky bottom-0 border-t border-border p-3">
+        <KeyChangeBanner
+          usernames={keyChange.changed ? [friendProfile?.username ?? 'unknown'] : []}
+          ownDevices={ownKeyChange}
+          onAccept={acceptKeyChange}
+          onVerify={keyChange.changed ? () => setShowSafetyNumber(true) : undefined}
+        />
+        {editingId && (
+          <div className="mb-2 flex items-center gap-2 rounded-lg bg-secondary px-3 py-2 text-xs text-muted-foreground">
+            <Pencil className="h-3.5 w-3.5 shrink-0 text-primary" />
+            <span className="flex-1">Editing message</span>
+            <button type="button" onClick={cancelEdit} aria-label="Cancel edit">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        {replyTo && (
+          <div className="mb-2 flex items-center gap-2 rounded-lg bg-secondary px-3 py-2 text-xs text-muted-foreground">
+            <Reply className="h-3.5 w-3.5 shrink-0 text-primary" />
+            <span className="min-w-0 flex-1 truncate">
+              Replying to {replyTo.sender_id === user!.id ? 'yourself' : nameOf(replyTo.sender_id)}:{' '}
+              {replyReference(replyTo, latestBody(replyTo)).excerpt}
+            </span>
+            <button type="button" onClick={() => setReplyTo(null)} aria-label="Cancel reply">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
         <form onSubmit={sendMessage} className="flex gap-2">
+          <input ref={fileInputRef} type="file" className="hidden" onChange={sendAttachment} />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-11 w-11 shrink-0 rounded-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={sending || keyChange.changed || ownKeyChange || !!editingId}
+          >
+            <Paperclip className="h-5 w-5" />
+          </Button>
           <Input
             value={newMessage}
-            onChange={e => setNewMessage(e.target.value)}
+            onChange={e => handleInputChange(e.target.value)}
             placeholder="Message"
             className="h-11 flex-1 bg-secondary border-border text-foreground placeholder:text-muted-foreground rounded-full px-4"
             maxLength={5000}
@@ -311,7 +712,7 @@ export default function Chat() {
             type="submit"
             size="icon"
             className="h-11 w-11 rounded-full"
-            disabled={!newMessage.trim() || sending}
+            disabled={!newMessage.trim() || sending || keyChange.changed || ownKeyChange}
           >
             <Send className="h-5 w-5" />
           </Button>
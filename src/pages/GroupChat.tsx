@@ -0,0 +1,531 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { ensureIdentity } from '@/lib/x3dh';
+import { encryptSessionMessage } from '@/lib/sessions';
+import { rememberPlaintext } from '@/lib/plaintexts';
+import { signMessage } from '@/lib/signatures';
+import {
+  DecryptedMessage,
+  MessageRow,
+  fetchMessagePage,
+  decryptRow,
+  decryptRows,
+  mergeMessages,
+  replyReference,
+  formatTime,
+  PAGE_SIZE,
+} from '@/lib/messages';
+import { enqueueMessage, loadOutboxMessages, sendQueuedMessage } from '@/lib/outbox';
+import { uploadAttachment } from '@/lib/attachments';
+import { Envelope, ENVELOPE_VERSION, encodeEnvelope, isSilentEnvelope } from '@/lib/envelope';
+import { checkRecipientKeys, acknowledgeKeyChange } from '@/lib/safety-number';
+import { GroupEvent, GroupMember, GroupSnapshot, fetchGroup, fetchGroupEvents, describeGroupEvent, isStaleEpoch } from '@/lib/groups';
+import UnlockVault from '@/components/UnlockVault';
+import SafetyNumberDialog from '@/components/SafetyNumberDialog';
+import KeyChangeBanner from '@/components/KeyChangeBanner';
+import MessageBubble from '@/components/MessageBubble';
+import EditHistoryDialog from '@/components/EditHistoryDialog';
+import DeleteMessageDialog from '@/components/DeleteMessageDialog';
+import GroupMembersDialog from '@/components/GroupMembersDialog';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useMessagePaging } from '@/hooks/use-message-paging';
+import { useTimelineScroll } from '@/hooks/use-timeline-scroll';
+import { useComposer } from '@/hooks/use-composer';
+import { useMessageDeletion } from '@/hooks/use-message-deletion';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, LockKeyhole, Send, Paperclip, Pencil, Reply, UserCog, Users, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+export default function GroupChat() {
+  const { groupId } = useParams<{ groupId: string }>();
+  const { user, vaultKey } = useAuth();
+  const navigate = useNavigate();
+  const [roster, setRoster] = useState<GroupSnapshot | null>(null);
+  const [events, setEvents] = useState<GroupEvent[]>([]);
+  const [messages, setMessages] = useState<DecryptedMessage[]>([]);
+  const [keysReady, setKeysReady] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [verifyMember, setVerifyMember] = useState<GroupMember | null>(null);
+  // Members, or the user, whose keys changed since the user last accepted them
+  const [keyChanges, setKeyChanges] = useState<string[]>([]);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const loadedAtRef = useRef(Date.now());
+
+  const {
+    newMessage, setNewMessage, editingId, replyTo, setReplyTo, edits, reactions,
+    latestBody, draftEnvelope, attachmentEnvelope, clearDraft, startReply, startEdit, cancelEdit, react,
+  } = useComposer(messages, envelope => sendEnvelope(envelope));
+  const {
+    hiddenIds, deleteTarget, setDeleteTarget, canDeleteForEveryone, deleteMessage, applyTombstones,
+  } = useMessageDeletion({ userId: user?.id, conversationId: groupId, setMessages });
+  const { hasMore, setHasMore, loadingOlder, prependRef, loadOlderMessages, loadUntil } = useMessagePaging({
+    userId: user?.id,
+    conversation: groupId ? { groupId } : null,
+    privateKey: null,
+    messages,
+    setMessages,
+    scrollRef,
+  });
+  const { deliver, discardMessage } = useOutbox({
+    userId: user?.id,
+    conversationId: groupId,
+    enabled: keysReady,
+    setMessages,
+    // Members joined or left since the message was sealed: seal it again
+    send: async id => {
+      try {
+        return await sendQueuedMessage(id);
+      } catch (err) {
+        if (!isStaleEpoch(err)) throw err;
+        await reseal(id);
+        return sendQueuedMessage(id);
+      }
+    },
+  });
+
+  // Every member's devices and our own, pinned and checked for changes
+  const checkKeys = useCallback(async (snapshot: GroupSnapshot) => {
+    const recipients = snapshot.members.map(m => m.user_id).filter(userId => userId !== user!.id);
+    const checked = await checkRecipientKeys(user!.id, recipients);
+    setKeyChanges(Object.keys(checked.statuses).filter(userId => checked.statuses[userId].changed));
+    return checked;
+  }, [user]);
+
+  // False once the user is no longer a member
+  const loadGroup = useCallback(async (): Promise<boolean> => {
+    const result = await fetchGroup(groupId!).catch(() => null);
+    if (!result || !result.members.some(m => m.user_id === user!.id)) {
+      toast.error('You are not a member of this group');
+      navigate('/');
+      return false;
+    }
+    setRoster(result);
+    // Checked again before every send
+    checkKeys(result).catch(() => {});
+    return true;
+  }, [user, groupId, navigate, checkKeys]);
+
+  const loadEvents = useCallback(() => {
+    fetchGroupEvents(groupId!).then(setEvents).catch(e => console.error('Failed to load group events', e));
+  }, [groupId]);
+
+  // Group messages are always ratchet-sealed, so no legacy RSA key is needed
+  const init = useCallback(async () => {
+    setLoading(true);
+    // Registered before loadGroup checks our own devices, so a new device
+    // isn't reported as a key change
+    try {
+      await ensureIdentity(user!.id);
+    } catch {
+      toast.error('Could not set up encryption keys.');
+    }
+
+    if (!(await loadGroup())) return;
+    loadEvents();
+
+    try {
+      const rows = await fetchMessagePage(user!.id, { groupId: groupId! });
+      setMessages(await decryptRows(user!.id, rows, null));
+      setHasMore(rows.length === PAGE_SIZE);
+    } catch {
+      toast.error('Could not load messages');
+    }
+    const queued = await loadOutboxMessages(user!.id, groupId!).catch(() => []);
+    if (queued.length) setMessages(prev => mergeMessages(prev, queued));
+    setKeysReady(true);
+    setLoading(false);
+  }, [user, groupId, setHasMore, loadGroup, loadEvents]);
+
+  useEffect(() => {
+    if (!user || !groupId || !vaultKey) return;
+    init();
+  }, [user, groupId, vaultKey, init]);
+
+  // New and deleted messages, and membership changes. Edit revisions of a
+  // message deleted for everyone are removed in the same transaction that
+  // tombstones it, so the tombstone UPDATE drops them too; DELETE events
+  // can't be filtered to a group and aren't subscribed to.
+  useEffect(() => {
+    if (!user || !groupId || !keysReady) return;
+
+    const channel = supabase
+      .channel(`group:${groupId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages',
+        filter: `group_id=eq.${groupId}`,
+      }, async (payload) => {
+        const msg = payload.new as MessageRow;
+        const decrypted = await decryptRow(user.id, msg, null);
+        // In (created_at, id) order, since rows can arrive out of order; the
+        // sender already added its own copy with the plaintext
+        setMessages(prev => mergeMessages(prev, [decrypted]));
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+        filter: `group_id=eq.${groupId}`,
+      }, (payload) => {
+        const updatedMsg = payload.new as MessageRow;
+        if (updatedMsg.deleted_at) applyTombstones([updatedMsg.id]);
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'group_members',
+        filter: `group_id=eq.${groupId}`,
+      }, () => loadGroup())
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'group_events',
+        filter: `group_id=eq.${groupId}`,
+      }, () => loadEvents())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, groupId, keysReady, applyTombstones, loadGroup, loadEvents]);
+
+  const acceptKeyChanges = async (userIds = keyChanges) => {
+    await Promise.all(userIds.map(userId => acknowledgeKeyChange(user!.id, userId)));
+    setKeyChanges(prev => prev.filter(userId => !userIds.includes(userId)));
+  };
+
+  // Encrypt for the devices of every member of the given epoch, sign and
+  // queue. Returns when it was queued.
+  const seal = async (id: string, envelope: Envelope, snapshot: GroupSnapshot) => {
+    const plaintext = encodeEnvelope(envelope);
+    const recipients = snapshot.members.map(m => m.user_id).filter(userId => userId !== user!.id);
+    // Never encrypt to keys that changed since the user last looked
+    const { devices, statuses } = await checkKeys(snapshot);
+    if (Object.values(statuses).some(status => status.changed)) {
+      throw new Error('Safety numbers changed. Review them before sending.');
+    }
+    const encrypted = await encryptSessionMessage(user!.id, plaintext, recipients, devices);
+
+    // Our own copy is never sealed for us, so keep the plaintext before the
+    // realtime INSERT for this row can arrive
+    await rememberPlaintext(user!.id, id, plaintext, null);
+
+    const row = {
+      id,
+      sender_id: user!.id,
+      receiver_id: null,
+      group_id: groupId!,
+      epoch: snapshot.group.epoch,
+      ciphertext: encrypted.ciphertext,
+      encrypted_key: JSON.stringify(encrypted.encryptedKeys),
+      iv: encrypted.iv,
+      sender_device_id: encrypted.senderDeviceId,
+      version: ENVELOPE_VERSION,
+      silent: isSilentEnvelope(envelope),
+      revises: envelope.type === 'edit' ? envelope.meta.target! : null,
+    };
+    const signature = await signMessage(user!.id, row);
+    return enqueueMessage({ ...row, signature });
+  };
+
+  // Seal a queued message again, under the same id, for the current members
+  const reseal = async (id: string) => {
+    const [queued, snapshot] = await Promise.all([
+      loadOutboxMessages(user!.id, groupId!).then(queue => queue.find(m => m.id === id)),
+      fetchGroup(groupId!),
+    ]);
+    if (!queued || !snapshot) throw new Error('This message can no longer be sent');
+    setRoster(snapshot);
+    await seal(id, queued.envelope, snapshot);
+  };
+
+  const sendEnvelope = async (envelope: Envelope) => {
+    const id = crypto.randomUUID();
+    const queuedAt = await seal(id, envelope, roster!);
+
+    atBottomRef.current = true;
+    setMessages(prev => [...prev, {
+      id,
+      sender_id: user!.id,
+      envelope,
+      created_at: queuedAt,
+      read_at: null,
+      expires_at: null,
+      signature: 'valid',
+      status: 'pending',
+    }]);
+    deliver(id);
+  };
+
+  const sendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMessage.trim() || sending) return;
+
+    setSending(true);
+    try {
+      await sendEnvelope(draftEnvelope());
+      clearDraft();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const sendAttachment = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || sending) return;
+
+    setSending(true);
+    try {
+      const attachment = await uploadAttachment(user!.id, file);
+      await sendEnvelope(attachmentEnvelope(attachment));
+      clearDraft();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send attachment');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const changedMembers = roster?.members.filter(m => m.user_id !== user!.id && keyChanges.includes(m.user_id)) ?? [];
+
+  const nameOf = (userId: string) => {
+    if (userId === user!.id) return 'You';
+    const username = roster?.members.find(m => m.user_id === userId)?.username
+      ?? events.find(e => e.usernames[userId])?.usernames[userId];
+    return username ? `@${username}` : 'Former member';
+  };
+
+  // Messages interleaved with membership events. While older messages are
+  // still unloaded, so are the events from that time.
+  const since = hasMore ? messages[0]?.created_at ?? '' : '';
+  const timeline = [
+    ...messages
+      .filter(msg => (msg.envelope.type === 'text' || msg.envelope.type === 'attachment') && !hiddenIds.has(msg.id))
+      .map(msg => ({ kind: 'message' as const, at: msg.created_at, id: msg.id, msg })),
+    ...events
+      .filter(event => event.created_at >= since)
+      .map(event => ({ kind: 'event' as const, at: event.created_at, id: event.id, event })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  const { virtualizer, atBottomRef, highlightId, jumpToMessage, handleScroll } = useTimelineScroll({
+    timeline,
+    loading,
+    scrollRef,
+    prependRef,
+    loadOlderMessages,
+    loadUntil,
+  });
+
+  if (!vaultKey) return <UnlockVault />;
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-[100dvh] flex-col bg-background">
+      {/* Header */}
+      <header className="glass-surface sticky top-0 z-10 border-b border-border px-2 py-3">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex h-9 w-9 items-center justify-center rounded-full bg-primary/10 text-primary">
+            <Users className="h-4 w-4" />
+          </div>
+          <button type="button" className="flex-1 text-left" onClick={() => setShowMembers(true)}>
+            <p className="text-sm font-medium text-foreground">{roster?.group.name}</p>
+            <p className="text-[10px] text-muted-foreground flex items-center gap-1">
+              <LockKeyhole className="h-2.5 w-2.5 encryption-badge" />
+              End-to-end encrypted · {roster?.members.length ?? 0} members
+            </p>
+          </button>
+          <Button variant="ghost" size="icon" onClick={() => setShowMembers(true)}>
+            <Users className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <GroupMembersDialog
+        open={showMembers}
+        onOpenChange={setShowMembers}
+        groupId={groupId!}
+        groupName={roster?.group.name}
+        members={roster?.members ?? []}
+        onChanged={loadGroup}
+        onLeft={() => navigate('/')}
+        onVerify={member => {
+          setShowMembers(false);
+          setVerifyMember(member);
+        }}
+      />
+
+      {verifyMember && (
+        <SafetyNumberDialog
+          open={!!verifyMember}
+          onOpenChange={open => !open && setVerifyMember(null)}
+          contactId={verifyMember.user_id}
+          contactUsername={verifyMember.username}
+          onVerifiedChange={isVerified => isVerified && acceptKeyChanges([verifyMember.user_id])}
+        />
+      )}
+
+      <EditHistoryDialog
+        open={!!historyId}
+        onOpenChange={open => !open && setHistoryId(null)}
+        original={messages.find(m => m.id === historyId) ?? null}
+        edits={(historyId && edits.get(historyId)) || []}
+      />
+
+      <DeleteMessageDialog
+        open={!!deleteTarget}
+        onOpenChange={open => !open && setDeleteTarget(null)}
+        canDeleteForEveryone={!!deleteTarget && canDeleteForEveryone(deleteTarget)}
+        onDelete={deleteMessage}
+      />
+
+      {/* Messages */}
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto px-3 py-4">
+        {hasMore ? (
+          <div className="flex justify-center py-2">
+            {loadingOlder && <div className="h-5 w-5 animate-spin rounded-full border-2 border-primary border-t-transparent" />}
+          </div>
+        ) : (
+          <div className="mb-4 flex justify-center">
+            <div className="rounded-lg bg-primary/5 px-3 py-2 text-center">
+              <p className="text-[11px] text-primary flex items-center gap-1 justify-center">
+                <LockKeyhole className="h-3 w-3" />
+                Messages are end-to-end encrypted for every member of this group.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map(virtualItem => {
+            const item = timeline[virtualItem.index];
+            const previous = timeline[virtualItem.index - 1];
+            return (
+              <div
+                key={virtualItem.key}
+                data-index={virtualItem.index}
+                ref={virtualizer.measureElement}
+                className="absolute left-0 top-0 w-full pb-2"
+                style={{ transform: `translateY(${virtualItem.start}px)` }}
+              >
+                {item.kind === 'event' ? (
+                  <div className="flex justify-center py-1">
+                    <p className="rounded-lg bg-secondary px-3 py-1.5 text-[11px] text-muted-foreground flex items-center gap-1">
+                      <UserCog className="h-3 w-3" />
+                      {describeGroupEvent(item.event, user!.id)} · {formatTime(item.at)}
+                    </p>
+                  </div>
+                ) : (
+                  <MessageBubble
+                    msg={item.msg}
+                    isMine={item.msg.sender_id === user!.id}
+                    animate={new Date(item.at).getTime() > loadedAtRef.current}
+                    highlighted={highlightId === item.id}
+                    nameOf={nameOf}
+                    // Name a run of messages from the same sender once
+                    senderName={
+                      item.msg.sender_id !== user!.id &&
+                      (previous?.kind !== 'message' || previous.msg.sender_id !== item.msg.sender_id)
+                        ? nameOf(item.msg.sender_id)
+                        : undefined
+                    }
+                    edits={edits.get(item.id)}
+                    reactions={reactions.get(item.id)}
+                    myId={user!.id}
+                    onRetry={deliver}
+                    onDiscard={discardMessage}
+                    onEdit={() => startEdit(item.msg)}
+                    onShowHistory={() => setHistoryId(item.id)}
+                    onDelete={() => setDeleteTarget(item.msg)}
+                    onReact={emoji => react(item.id, emoji)}
+                    onReply={() => startReply(item.msg)}
+                    onJumpTo={jumpToMessage}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Input */}
+      <div className="glass-surface sticky bottom-0 border-t border-border p-3">
+        <KeyChangeBanner
+          usernames={changedMembers.map(m => m.username)}
+          ownDevices={keyChanges.includes(user!.id)}
+          onAccept={() => acceptKeyChanges()}
+          onVerify={changedMembers.length === 1 ? () => setVerifyMember(changedMembers[0]) : undefined}
+        />
+        {editingId && (
+          <div className="mb-2 flex items-center gap-2 rounded-lg bg-secondary px-3 py-2 text-xs text-muted-foreground">
+            <Pencil className="h-3.5 w-3.5 shrink-0 text-primary" />
+            <span className="flex-1">Editing message</span>
+            <button type="button" onClick={cancelEdit} aria-label="Cancel edit">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        {replyTo && (
+          <div className="mb-2 flex items-center gap-2 rounded-lg bg-secondary px-3 py-2 text-xs text-muted-foreground">
+            <Reply className="h-3.5 w-3.5 shrink-0 text-primary" />
+            <span className="min-w-0 flex-1 truncate">
+              Replying to {replyTo.sender_id === user!.id ? 'yourself' : nameOf(replyTo.sender_id)}:{' '}
+              {replyReference(replyTo, latestBody(replyTo)).excerpt}
+            </span>
+            <button type="button" onClick={() => setReplyTo(null)} aria-label="Cancel reply">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        <form onSubmit={sendMessage} className="flex gap-2">
+          <input ref={fileInputRef} type="file" className="hidden" onChange={sendAttachment} />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-11 w-11 shrink-0 rounded-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={sending || keyChanges.length > 0 || !!editingId}
+          >
+            <Paperclip className="h-5 w-5" />
+          </Button>
+          <Input
+            value={newMessage}
+            onChange={e => setNewMessage(e.target.value)}
+            placeholder="Message"
+            className="h-11 flex-1 bg-secondary border-border text-foreground placeholder:text-muted-foreground rounded-full px-4"
+            maxLength={5000}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            className="h-11 w-11 rounded-full"
+            disabled={!newMessage.trim() || sending || keyChanges.length > 0}
+          >
+            <Send className="h-5 w-5" />
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useAuth } from '@/lib/auth-context';
 import { Navigate } from 'react-router-dom';
 import FriendList from '@/components/FriendList';
+import UnlockVault from '@/components/UnlockVault';
 
 export default function Index() {
-  const { user, loading } = useAuth();
+  const { user, loading, vaultKey } = useAuth();
 
   if (loading) {
     return (
@@ -14,6 +15,7 @@ export default function Index() {
   }
 
   if (!user) return <Navigate to="/auth" replace />;
+  if (!vaultKey) return <UnlockVault />;
 
   return <FriendList />;
 }
@@ -1,8 +1,9 @@
 import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/lib/auth-context';
-import { Shield, UserPlus } from 'lucide-react';
+import { ScannedInviteState, previewInvite, redeemInvite } from '@/lib/invites';
+import { currentFingerprint, markVerified } from '@/lib/safety-number';
+import { Shield, ShieldAlert, ShieldCheck, UserPlus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 
@@ -10,82 +11,45 @@ export default function Invite() {
   const { token } = useParams<{ token: string }>();
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const [loading, setLoading] = useState(false);
+  const [inviterId, setInviterId] = useState<string | null>(null);
   const [inviterUsername, setInviterUsername] = useState<string | null>(null);
+  // Set when the in-app scanner read a QR code carrying the inviter's fingerprint
+  const [keysMatch, setKeysMatch] = useState<boolean | null>(null);
+  const fingerprint = (location.state as ScannedInviteState | null)?.fingerprint ?? null;
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (authLoading) return;
     if (!user) {
-      navigate(`/auth?redirect=/invite/${token}`);
+      navigate(`/auth?redirect=${encodeURIComponent(location.pathname + location.hash)}`);
       return;
     }
     loadInvite();
   }, [user, authLoading, token]);
 
   const loadInvite = async () => {
-    const { data: invite } = await supabase
-      .from('invite_tokens')
-      .select('*')
-      .eq('token', token!)
-      .is('used_at', null)
-      .single();
-
-    if (!invite) {
-      setError('This invite link is invalid or has expired.');
-      return;
-    }
-
-    if (invite.created_by === user!.id) {
-      setError("You can't use your own invite link.");
-      return;
-    }
-
-    // Check if expired
-    if (new Date(invite.expires_at) < new Date()) {
-      setError('This invite link has expired.');
-      return;
+    try {
+      const invite = await previewInvite(token!);
+      if (fingerprint) setKeysMatch((await currentFingerprint(invite.inviterId)) === fingerprint);
+      setInviterId(invite.inviterId);
+      setInviterUsername(invite.inviterUsername);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'This invite link is invalid.');
     }
-
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('username')
-      .eq('user_id', invite.created_by)
-      .single();
-
-    setInviterUsername(profile?.username || 'Unknown');
   };
 
+  // Validated, used up and turned into a friendship in one server call
   const acceptInvite = async () => {
     setLoading(true);
     try {
-      // Get the invite
-      const { data: invite } = await supabase
-        .from('invite_tokens')
-        .select('*')
-        .eq('token', token!)
-        .is('used_at', null)
-        .single();
-
-      if (!invite) throw new Error('Invalid invite');
-
-      // Mark invite as used
-      await supabase.from('invite_tokens').update({
-        used_by: user!.id,
-        used_at: new Date().toISOString(),
-      }).eq('token', token!);
-
-      // Send friend request
-      await supabase.from('friend_requests').insert({
-        sender_id: invite.created_by,
-        receiver_id: user!.id,
-        status: 'accepted', // Auto-accept since invite was shared
-      });
-
+      await redeemInvite(token!);
+      if (keysMatch) await markVerified(user!.id, inviterId!, fingerprint!);
       toast.success('Friend added!');
       navigate('/');
-    } catch (err: any) {
-      toast.error(err.message || 'Failed to accept invite');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to accept invite');
     } finally {
       setLoading(false);
     }
@@ -119,6 +83,18 @@ export default function Invite() {
                 <span className="text-primary font-medium">@{inviterUsername}</span> invited you to connect on VaultChat
               </p>
             </div>
+            {keysMatch === true && (
+              <p className="flex items-center justify-center gap-1 text-xs text-primary">
+                <ShieldCheck className="h-4 w-4" />
+                Keys match the QR code. @{inviterUsername} will be marked as verified.
+              </p>
+            )}
+            {keysMatch === false && (
+              <p className="flex items-center justify-center gap-1 text-xs text-destructive">
+                <ShieldAlert className="h-4 w-4 shrink-0" />
+                @{inviterUsername}'s keys have changed since this QR code was made. Compare safety numbers before trusting them.
+              </p>
+            )}
             <Button onClick={acceptInvite} disabled={loading} className="w-full h-12">
               <UserPlus className="mr-2 h-5 w-5" />
               {loading ? 'Connecting...' : 'Accept & Connect'}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { ENVELOPE_VERSION, createEnvelope, encodeEnvelope, decodeEnvelope } from "@/lib/envelope";
+
+const attachment = {
+  path: "user/file",
+  key: "a2V5",
+  iv: "aXY=",
+  sha256: "aGFzaA==",
+  name: "photo.jpg",
+  mime: "image/jpeg",
+  size: 1024,
+};
+
+describe("message envelopes", () => {
+  it("round-trips through encode and decode", () => {
+    const envelope = createEnvelope("text", "hello", { reply: { id: "m1", sender_id: "u1", excerpt: "hi" } });
+    expect(decodeEnvelope(encodeEnvelope(envelope), ENVELOPE_VERSION)).toEqual(envelope);
+  });
+
+  it("decodes version 0 plaintexts as text or legacy attachments", () => {
+    expect(decodeEnvelope("plain old text", 0)).toEqual(createEnvelope("text", "plain old text"));
+    expect(decodeEnvelope("{not json", 0)).toEqual(createEnvelope("text", "{not json"));
+    expect(decodeEnvelope(JSON.stringify({ text: "caption", attachment }), 0))
+      .toEqual(createEnvelope("attachment", "caption", { attachment }));
+  });
+
+  it("rejects versions newer than this client", () => {
+    const plaintext = encodeEnvelope(createEnvelope("text", "from the future"));
+    expect(() => decodeEnvelope(plaintext, ENVELOPE_VERSION + 1)).toThrow("Unsupported message version");
+  });
+
+  it("rejects malformed envelopes", () => {
+    expect(() => decodeEnvelope(JSON.stringify({ type: "shout", body: "hi" }), ENVELOPE_VERSION)).toThrow("Malformed message envelope");
+    expect(() => decodeEnvelope(JSON.stringify({ type: "text" }), ENVELOPE_VERSION)).toThrow("Malformed message envelope");
+    expect(() => decodeEnvelope(encodeEnvelope(createEnvelope("attachment", "")), ENVELOPE_VERSION)).toThrow("Malformed attachment");
+    expect(() => decodeEnvelope(encodeEnvelope(createEnvelope("edit", "fixed")), ENVELOPE_VERSION)).toThrow("Missing target message");
+  });
+
+  it("drops a malformed quote but keeps the reply", () => {
+    const plaintext = encodeEnvelope(createEnvelope("text", "agreed", { reply: { id: "m1" } as never }));
+    expect(decodeEnvelope(plaintext, ENVELOPE_VERSION)).toEqual(createEnvelope("text", "agreed"));
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { inviteLink, inviteFingerprint, invitePath } from "@/lib/invites";
+
+const token = "0b7c3a52-6f1e-4d8a-9c2b-5e4f3a2b1c0d";
+// Base64 fingerprints contain characters that need escaping in a fragment
+const fingerprint = "ab+c/d==";
+
+describe("invite links", () => {
+  it("links to the invite page, with the fingerprint only in the fragment", () => {
+    expect(inviteLink(token)).toBe(`${window.location.origin}/invite/${token}`);
+
+    const url = new URL(inviteLink(token, fingerprint));
+    expect(url.pathname).toBe(`/invite/${token}`);
+    expect(url.search).toBe("");
+    expect(inviteFingerprint(url.hash)).toBe(fingerprint);
+  });
+
+  it("reads no fingerprint from a link without one", () => {
+    expect(inviteFingerprint("")).toBeNull();
+    expect(inviteFingerprint("#other=1")).toBeNull();
+  });
+
+  it("turns a scanned invite link into an in-app path without the fragment", () => {
+    expect(invitePath(inviteLink(token, fingerprint))).toBe(`/invite/${token}`);
+    expect(invitePath(`${window.location.origin}/invite/${token}/`)).toBe(`/invite/${token}`);
+  });
+
+  it("rejects scanned text that isn't an invite link", () => {
+    expect(invitePath("not a url")).toBeNull();
+    expect(invitePath(`${window.location.origin}/chat/${token}`)).toBeNull();
+    expect(invitePath(`${window.location.origin}/invite/not-a-token`)).toBeNull();
+    expect(invitePath(`${window.location.origin}/invite/${token}/extra`)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { DecryptedMessage, collectEdits, collectReactions } from "@/lib/messages";
+import { EnvelopeType, createEnvelope } from "@/lib/envelope";
+
+let clock = 0;
+
+function message(sender: string, type: EnvelopeType, body: string, target?: string): DecryptedMessage {
+  clock += 1000;
+  return {
+    id: crypto.randomUUID(),
+    sender_id: sender,
+    envelope: createEnvelope(type, body, target ? { target } : {}),
+    created_at: new Date(clock).toISOString(),
+    read_at: null,
+    expires_at: null,
+    signature: "valid",
+  };
+}
+
+describe("collectEdits", () => {
+  it("groups edits under the message they revise, oldest first", () => {
+    const original = message("alice", "text", "helo");
+    const first = message("alice", "edit", "hello", original.id);
+    const second = message("alice", "edit", "hello!", original.id);
+    const other = message("bob", "text", "hi");
+
+    const edits = collectEdits([original, first, other, second]);
+    expect(edits.get(original.id)).toEqual([first, second]);
+    expect(edits.has(other.id)).toBe(false);
+  });
+
+  it("ignores edits by anyone but the original sender", () => {
+    const original = message("alice", "text", "hello");
+    const forged = message("bob", "edit", "goodbye", original.id);
+
+    expect(collectEdits([original, forged]).has(original.id)).toBe(false);
+  });
+
+  it("ignores edits of messages that aren't loaded", () => {
+    const orphan = message("alice", "edit", "hello", crypto.randomUUID());
+
+    expect(collectEdits([orphan]).size).toBe(0);
+  });
+});
+
+describe("collectReactions", () => {
+  it("keeps one reaction per user, the latest replacing earlier ones", () => {
+    const original = message("alice", "text", "lunch?");
+    const reactions = collectReactions([
+      original,
+      message("bob", "reaction", "👍", original.id),
+      message("carol", "reaction", "❤️", original.id),
+      message("bob", "reaction", "😂", original.id),
+    ]);
+
+    expect(Object.fromEntries(reactions.get(original.id)!)).toEqual({ bob: "😂", carol: "❤️" });
+  });
+
+  it("removes a user's reaction when they send an empty one", () => {
+    const original = message("alice", "text", "lunch?");
+    const reactions = collectReactions([
+      original,
+      message("bob", "reaction", "👍", original.id),
+      message("bob", "reaction", "", original.id),
+    ]);
+
+    expect(reactions.get(original.id)!.size).toBe(0);
+  });
+
+  it("keeps reactions to different messages apart", () => {
+    const first = message("alice", "text", "one");
+    const second = message("alice", "text", "two");
+    const reactions = collectReactions([
+      message("bob", "reaction", "👍", first.id),
+      message("bob", "reaction", "👎", second.id),
+    ]);
+
+    expect(reactions.get(first.id)!.get("bob")).toBe("👍");
+    expect(reactions.get(second.id)!.get("bob")).toBe("👎");
+  });
+});
@@ -0,0 +1,54 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import {
+  generateDHKeyPair,
+  exportRawPublicKey,
+  initRatchetAsSender,
+  initRatchetAsReceiver,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  cloneRatchetState,
+} from "@/lib/ratchet";
+
+const encode = (s: string) => new TextEncoder().encode(s).buffer as ArrayBuffer;
+const decode = (b: ArrayBuffer) => new TextDecoder().decode(b);
+
+async function setup() {
+  const sk = crypto.getRandomValues(new Uint8Array(32)).buffer as ArrayBuffer;
+  const ad = new Uint8Array([1, 2, 3]).buffer as ArrayBuffer;
+  const bobSpk = await generateDHKeyPair();
+  const alice = await initRatchetAsSender(sk, await exportRawPublicKey(bobSpk.publicKey), ad);
+  const bob = await initRatchetAsReceiver(sk, bobSpk, ad);
+  return { alice, bob };
+}
+
+describe("double ratchet", () => {
+  it("exchanges messages in both directions", async () => {
+    const { alice, bob } = await setup();
+
+    const m1 = await ratchetEncrypt(alice, encode("hi bob"));
+    expect(decode(await ratchetDecrypt(bob, m1.header, m1.ciphertext))).toBe("hi bob");
+
+    const m2 = await ratchetEncrypt(bob, encode("hi alice"));
+    expect(decode(await ratchetDecrypt(alice, m2.header, m2.ciphertext))).toBe("hi alice");
+    expect(m2.header.dh).not.toBe(m1.header.dh);
+  });
+
+  it("decrypts out-of-order messages via skipped keys", async () => {
+    const { alice, bob } = await setup();
+
+    const first = await ratchetEncrypt(alice, encode("one"));
+    const second = await ratchetEncrypt(alice, encode("two"));
+
+    expect(decode(await ratchetDecrypt(bob, second.header, second.ciphertext))).toBe("two");
+    expect(decode(await ratchetDecrypt(bob, first.header, first.ciphertext))).toBe("one");
+  });
+
+  it("cannot decrypt the same message twice", async () => {
+    const { alice, bob } = await setup();
+
+    const m = await ratchetEncrypt(alice, encode("once"));
+    await ratchetDecrypt(bob, m.header, m.ciphertext);
+    await expect(ratchetDecrypt(cloneRatchetState(bob), m.header, m.ciphertext)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { toBase64 } from "@/lib/crypto";
+import { computeFingerprint, computeSafetyNumber, identityKeys } from "@/lib/safety-number";
+
+const randomKey = () => toBase64(crypto.getRandomValues(new Uint8Array(65)));
+
+const device = () => ({ identity_key: randomKey(), signing_key: randomKey() });
+
+describe("safety numbers", () => {
+  it("does not depend on the order devices are listed in", async () => {
+    const publicKey = randomKey();
+    const [phone, laptop] = [device(), device()];
+
+    const keys = identityKeys(publicKey, [phone, laptop]);
+    expect(identityKeys(publicKey, [laptop, phone])).toEqual(keys);
+    expect(keys).toEqual([publicKey, ...[phone, laptop]
+      .sort((a, b) => (a.identity_key < b.identity_key ? -1 : 1))
+      .flatMap(d => [d.identity_key, d.signing_key])]);
+  });
+
+  it("changes when any identity or signing key changes", async () => {
+    const publicKey = randomKey();
+    const phone = device();
+    const fingerprint = toBase64(await computeFingerprint("alice", identityKeys(publicKey, [phone])));
+
+    const swapped = [
+      identityKeys(randomKey(), [phone]),
+      identityKeys(publicKey, [{ ...phone, identity_key: randomKey() }]),
+      identityKeys(publicKey, [{ ...phone, signing_key: randomKey() }]),
+      identityKeys(publicKey, [phone, device()]),
+    ];
+    for (const keys of swapped) {
+      expect(toBase64(await computeFingerprint("alice", keys))).not.toBe(fingerprint);
+    }
+  });
+
+  it("is bound to the user id", async () => {
+    const keys = identityKeys(randomKey(), [device()]);
+    expect(await computeFingerprint("alice", keys)).not.toEqual(await computeFingerprint("bob", keys));
+  });
+
+  it("shows both parties the same 60 digits", async () => {
+    const aliceKeys = identityKeys(randomKey(), [device()]);
+    const bobKeys = identityKeys(randomKey(), [device()]);
+
+    const forAlice = await computeSafetyNumber("alice", aliceKeys, "bob", bobKeys);
+    const forBob = await computeSafetyNumber("bob", bobKeys, "alice", aliceKeys);
+    expect(forAlice.safetyNumber).toMatch(/^\d{60}$/);
+    expect(forBob.safetyNumber).toBe(forAlice.safetyNumber);
+    expect(forAlice.theirFingerprint).toBe(toBase64(await computeFingerprint("bob", bobKeys)));
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { toBase64 } from "@/lib/crypto";
+import { SignedFields, signMessage, verifyMessageSignature } from "@/lib/signatures";
+
+// Published devices by id, as the devices table would return them
+const devices = new Map<string, { user_id: string; signing_key: string }>();
+let signingKey: CryptoKeyPair;
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        eq: (_column: string, id: string) => ({
+          maybeSingle: async () => ({ data: devices.get(id) ?? null, error: null }),
+        }),
+      }),
+    }),
+  },
+}));
+
+vi.mock("@/lib/x3dh", () => ({
+  loadIdentity: async () => ({ signingKey }),
+}));
+
+beforeAll(async () => {
+  signingKey = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+});
+
+// A row signed by alice on deviceId, with the device registered to owner
+async function signedRow(deviceId: string, owner = "alice"): Promise<SignedFields & { signature: string }> {
+  devices.set(deviceId, { user_id: owner, signing_key: toBase64(await crypto.subtle.exportKey("raw", signingKey.publicKey)) });
+  const fields: SignedFields = {
+    id: crypto.randomUUID(),
+    sender_id: "alice",
+    receiver_id: "bob",
+    sender_device_id: deviceId,
+    ciphertext: "Y2lwaGVydGV4dA==",
+    iv: "aXY=",
+    encrypted_key: "{}",
+    version: 1,
+    silent: false,
+  };
+  return { ...fields, signature: await signMessage("alice", fields) };
+}
+
+describe("message signatures", () => {
+  it("accepts a row signed by the sender's device", async () => {
+    expect(await verifyMessageSignature(await signedRow("device-valid"))).toBe("valid");
+  });
+
+  it("rejects a row changed after signing", async () => {
+    const row = await signedRow("device-tampered");
+    expect(await verifyMessageSignature({ ...row, ciphertext: "dGFtcGVyZWQ=" })).toBe("invalid");
+    expect(await verifyMessageSignature({ ...row, silent: true })).toBe("invalid");
+    expect(await verifyMessageSignature({ ...row, sender_id: "mallory" })).toBe("invalid");
+  });
+
+  it("rejects a device that belongs to someone else", async () => {
+    expect(await verifyMessageSignature(await signedRow("device-stolen", "mallory"))).toBe("invalid");
+  });
+
+  it("rejects a signature without a device or from an unknown one", async () => {
+    const row = await signedRow("device-known");
+    expect(await verifyMessageSignature({ ...row, sender_device_id: null })).toBe("invalid");
+    expect(await verifyMessageSignature({ ...row, sender_device_id: "device-unknown" })).toBe("invalid");
+  });
+
+  it("reports rows from before signing as unsigned", async () => {
+    const row = await signedRow("device-legacy");
+    expect(await verifyMessageSignature({ ...row, signature: null })).toBe("unsigned");
+  });
+});
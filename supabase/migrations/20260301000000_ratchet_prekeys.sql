@@ -0,0 +1,83 @@
+-- X3DH prekey bundles for Double Ratchet sessions. Each browser registers
+-- its own device with an identity key, a signed prekey and a pool of
+-- one-time prekeys.
+CREATE TABLE public.devices (
+  id UUID NOT NULL PRIMARY KEY, -- generated on the device
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT '',
+  identity_key TEXT NOT NULL,
+  signing_key TEXT NOT NULL,
+  signed_prekey_id INTEGER NOT NULL,
+  signed_prekey TEXT NOT NULL,
+  signed_prekey_signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX devices_user_id_idx ON public.devices (user_id);
+
+ALTER TABLE public.devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read devices"
+  ON public.devices FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can register own devices"
+  ON public.devices FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own devices"
+  ON public.devices FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own devices"
+  ON public.devices FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_devices_updated_at
+  BEFORE UPDATE ON public.devices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.one_time_prekeys (
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key_id INTEGER NOT NULL,
+  public_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (device_id, key_id)
+);
+
+ALTER TABLE public.one_time_prekeys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own one-time prekeys"
+  ON public.one_time_prekeys FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can upload own one-time prekeys"
+  ON public.one_time_prekeys FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.devices d WHERE d.id = device_id AND d.user_id = auth.uid())
+  );
+
+-- Atomically remove and return one of target_device's one-time prekeys
+CREATE OR REPLACE FUNCTION public.claim_one_time_prekey(target_device UUID)
+RETURNS TABLE (key_id INTEGER, public_key TEXT) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  DELETE FROM public.one_time_prekeys AS o
+  WHERE o.ctid = (
+    SELECT p.ctid FROM public.one_time_prekeys AS p
+    WHERE p.device_id = target_device
+    ORDER BY p.key_id
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.key_id, o.public_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
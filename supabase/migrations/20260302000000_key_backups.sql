@@ -0,0 +1,34 @@
+-- Optional encrypted private key backups. wrapped_key is AES-GCM encrypted
+-- client-side under a PBKDF2 key from the account password or a recovery
+-- passphrase; the server never sees either.
+CREATE TABLE public.key_backups (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('password', 'recovery')),
+  wrapped_key TEXT NOT NULL,
+  salt TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.key_backups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own key backup"
+  ON public.key_backups FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own key backup"
+  ON public.key_backups FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own key backup"
+  ON public.key_backups FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own key backup"
+  ON public.key_backups FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_key_backups_updated_at
+  BEFORE UPDATE ON public.key_backups
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
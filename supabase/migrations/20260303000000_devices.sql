@@ -0,0 +1,4 @@
+-- Per-device keys. Messages seal the content key for every device of both
+-- parties; this records which of the sender's devices sealed the message
+-- (selects the ratchet session).
+ALTER TABLE public.messages ADD COLUMN sender_device_id UUID;
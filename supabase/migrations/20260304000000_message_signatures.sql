@@ -0,0 +1,2 @@
+-- ECDSA signature by the sending device over the message row (see signatures.ts)
+ALTER TABLE public.messages ADD COLUMN signature TEXT;
@@ -0,0 +1,24 @@
+-- Encrypted attachments. Files are encrypted client-side with a per-file key
+-- that only travels inside the encrypted message body, so the bucket holds
+-- nothing but ciphertext under unguessable paths.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload attachments to own folder"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Authenticated users can read attachments"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'attachments' AND auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete own attachments"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'attachments'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
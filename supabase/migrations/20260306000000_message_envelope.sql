@@ -0,0 +1,6 @@
+-- Message format version.
+--   0: plaintext is a bare string; encrypted_key is RSA-wrapped (per user) or
+--      ratchet-sealed (per device)
+--   1: plaintext is a JSON envelope {v, type, body, meta}; encrypted_key is
+--      ratchet-sealed per device
+ALTER TABLE public.messages ADD COLUMN version SMALLINT NOT NULL DEFAULT 0;
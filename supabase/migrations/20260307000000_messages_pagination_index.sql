@@ -0,0 +1,3 @@
+-- Conversation history is paged newest-first on (created_at, id)
+CREATE INDEX messages_conversation_idx
+  ON public.messages (sender_id, receiver_id, created_at DESC, id DESC);
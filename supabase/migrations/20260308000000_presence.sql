@@ -0,0 +1,42 @@
+-- Presence. Live online state comes from a Realtime presence channel; the
+-- last-seen time is stored here, coarsened, visible only to friends, and not
+-- kept at all for users who hide their presence.
+ALTER TABLE public.profiles ADD COLUMN show_presence BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TABLE public.last_seen (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  seen_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE public.last_seen ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see own and friends' last seen"
+  ON public.last_seen FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.friend_requests f
+      WHERE f.status = 'accepted'
+        AND ((f.sender_id = auth.uid() AND f.receiver_id = user_id)
+          OR (f.receiver_id = auth.uid() AND f.sender_id = user_id))
+    )
+  );
+
+-- Record that the caller is active, rounded down to 5 minutes so friends
+-- can't follow activity precisely. Clears the record if presence is hidden.
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND show_presence) THEN
+    INSERT INTO public.last_seen (user_id, seen_at)
+    VALUES (auth.uid(), date_bin('5 minutes', now(), TIMESTAMPTZ 'epoch'))
+    ON CONFLICT (user_id) DO UPDATE SET seen_at = EXCLUDED.seen_at;
+  ELSE
+    DELETE FROM public.last_seen WHERE user_id = auth.uid();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
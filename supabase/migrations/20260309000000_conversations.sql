@@ -0,0 +1,31 @@
+-- One row per conversation partner of the caller: the latest message row (as
+-- JSON, still encrypted) and how many messages to the caller are unread.
+-- Runs with the caller's rights, so messages RLS still applies.
+CREATE OR REPLACE FUNCTION public.get_conversations()
+RETURNS TABLE (friend_id UUID, last_message JSONB, unread_count BIGINT) AS $$
+  WITH mine AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END AS partner_id
+    FROM public.messages m
+    WHERE m.sender_id = auth.uid() OR m.receiver_id = auth.uid()
+  ),
+  latest AS (
+    SELECT DISTINCT ON (partner_id) partner_id, to_jsonb(mine) - 'partner_id' AS message
+    FROM mine
+    ORDER BY partner_id, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT partner_id, count(*) AS n
+    FROM mine
+    WHERE receiver_id = auth.uid() AND read_at IS NULL
+    GROUP BY partner_id
+  )
+  SELECT l.partner_id, l.message, COALESCE(u.n, 0)
+  FROM latest l
+  LEFT JOIN unread u USING (partner_id);
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE INDEX messages_unread_idx
+  ON public.messages (receiver_id, sender_id)
+  WHERE read_at IS NULL;
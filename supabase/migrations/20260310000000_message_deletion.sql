@@ -0,0 +1,57 @@
+-- Deleting messages for everyone. The sender can replace a message with a
+-- tombstone (ciphertext and keys wiped, deleted_at set) within a configurable
+-- window after sending; its edit revisions are removed outright.
+ALTER TABLE public.messages ADD COLUMN deleted_at TIMESTAMPTZ;
+
+-- The message an edit revises, set (and signed) by the sender. The server
+-- can't read envelopes, so this is how it finds the revisions to remove.
+ALTER TABLE public.messages ADD COLUMN revises UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX messages_revises_idx ON public.messages (revises) WHERE revises IS NOT NULL;
+
+CREATE TABLE public.app_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read settings"
+  ON public.app_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.app_settings (key, value) VALUES ('message_delete_window_seconds', '172800');
+
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(target UUID)
+RETURNS VOID AS $$
+DECLARE
+  window_seconds INTEGER;
+  msg public.messages%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO msg FROM public.messages WHERE id = target FOR UPDATE;
+  IF NOT FOUND OR msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the sender can delete this message';
+  END IF;
+  IF msg.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT value::INTEGER INTO window_seconds FROM public.app_settings WHERE key = 'message_delete_window_seconds';
+  IF msg.created_at < now() - make_interval(secs => COALESCE(window_seconds, 0)) THEN
+    RAISE EXCEPTION 'This message is too old to delete for everyone';
+  END IF;
+
+  UPDATE public.messages
+  SET ciphertext = '', encrypted_key = '{}', iv = '', signature = NULL, deleted_at = now()
+  WHERE id = target;
+
+  -- Only the sender's own edits of target, which are newer than it and so
+  -- within the window too
+  DELETE FROM public.messages
+  WHERE revises = target AND sender_id = auth.uid() AND receiver_id = msg.receiver_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,19 @@
+-- Disappearing messages. The timer itself is agreed through encrypted system
+-- messages; each message row carries the resulting expiry so the server can
+-- hide and then hard-delete it.
+ALTER TABLE public.messages ADD COLUMN expires_at TIMESTAMPTZ;
+
+CREATE INDEX messages_expires_at_idx ON public.messages (expires_at) WHERE expires_at IS NOT NULL;
+
+-- Expired rows are invisible even before the cleanup job has run
+CREATE POLICY "Expired messages are hidden"
+  ON public.messages AS RESTRICTIVE FOR SELECT
+  USING (expires_at IS NULL OR expires_at > now());
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'delete-expired-messages',
+  '* * * * *',
+  $$DELETE FROM public.messages WHERE expires_at <= now()$$
+);
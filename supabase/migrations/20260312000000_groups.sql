@@ -0,0 +1,256 @@
+-- Group chats. A group message is a single messages row with group_id set in
+-- place of receiver_id; its content key is sealed for every member's devices.
+-- Membership only changes through the functions below, which enforce roles.
+CREATE TABLE public.groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 64),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.group_members (
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX group_members_user_id_idx ON public.group_members (user_id);
+
+CREATE TRIGGER update_groups_updated_at
+  BEFORE UPDATE ON public.groups
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership checks run with definer rights so the group_members policies
+-- can use them without recursing into themselves
+CREATE OR REPLACE FUNCTION public.is_group_member(target_group UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members WHERE group_id = target_group AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_group_admin(target_group UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members WHERE group_id = target_group AND user_id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.are_friends(a UUID, b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.friend_requests f
+    WHERE f.status = 'accepted'
+      AND ((f.sender_id = a AND f.receiver_id = b) OR (f.sender_id = b AND f.receiver_id = a))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their groups"
+  ON public.groups FOR SELECT
+  USING (public.is_group_member(id));
+
+CREATE POLICY "Admins can rename groups"
+  ON public.groups FOR UPDATE
+  USING (public.is_group_admin(id));
+
+ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can see who is in their groups"
+  ON public.group_members FOR SELECT
+  USING (public.is_group_member(group_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_members;
+
+-- Group rows on messages
+ALTER TABLE public.messages ALTER COLUMN receiver_id DROP NOT NULL;
+ALTER TABLE public.messages ADD COLUMN group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_one_recipient CHECK ((receiver_id IS NULL) <> (group_id IS NULL));
+
+CREATE INDEX messages_group_pagination_idx
+  ON public.messages (group_id, created_at DESC, id DESC)
+  WHERE group_id IS NOT NULL;
+
+CREATE POLICY "Members can read group messages"
+  ON public.messages FOR SELECT
+  USING (group_id IS NOT NULL AND public.is_group_member(group_id));
+
+-- The existing insert policy only checks the sender
+CREATE POLICY "Only members can send to a group"
+  ON public.messages AS RESTRICTIVE FOR INSERT
+  WITH CHECK (group_id IS NULL OR public.is_group_member(group_id));
+
+-- Keep every group admin-led: when the last admin goes, the longest
+-- standing member takes over; when the last member goes, the group is removed
+CREATE OR REPLACE FUNCTION public.ensure_group_admin(target_group UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.group_members WHERE group_id = target_group) THEN
+    DELETE FROM public.groups WHERE id = target_group;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.group_members WHERE group_id = target_group AND role = 'admin') THEN
+    UPDATE public.group_members SET role = 'admin'
+    WHERE group_id = target_group
+      AND user_id = (
+        SELECT user_id FROM public.group_members
+        WHERE group_id = target_group
+        ORDER BY joined_at, user_id
+        LIMIT 1
+      );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_group_admin(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Create a group with the caller as admin and some of their friends as members
+CREATE OR REPLACE FUNCTION public.create_group(group_name TEXT, member_ids UUID[] DEFAULT '{}')
+RETURNS UUID AS $$
+DECLARE
+  new_group UUID;
+  member UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.groups (name, created_by) VALUES (trim(group_name), auth.uid()) RETURNING id INTO new_group;
+  INSERT INTO public.group_members (group_id, user_id, role, added_by) VALUES (new_group, auth.uid(), 'admin', auth.uid());
+
+  FOREACH member IN ARRAY member_ids LOOP
+    IF member = auth.uid() THEN
+      CONTINUE;
+    END IF;
+    IF NOT public.are_friends(auth.uid(), member) THEN
+      RAISE EXCEPTION 'You can only add friends to a group';
+    END IF;
+    INSERT INTO public.group_members (group_id, user_id, added_by)
+    VALUES (new_group, member, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+
+  RETURN new_group;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.add_group_member(target_group UUID, new_member UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF NOT public.is_group_admin(target_group) THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+  IF NOT public.are_friends(auth.uid(), new_member) THEN
+    RAISE EXCEPTION 'You can only add friends to a group';
+  END IF;
+
+  INSERT INTO public.group_members (group_id, user_id, added_by)
+  VALUES (target_group, new_member, auth.uid())
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Leave (member = caller) or, as an admin, remove someone else
+CREATE OR REPLACE FUNCTION public.remove_group_member(target_group UUID, member UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF member <> auth.uid() AND NOT public.is_group_admin(target_group) THEN
+    RAISE EXCEPTION 'Only group admins can remove members';
+  END IF;
+
+  DELETE FROM public.group_members WHERE group_id = target_group AND user_id = member;
+  PERFORM public.ensure_group_admin(target_group);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_group_member_role(target_group UUID, member UUID, new_role TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF NOT public.is_group_admin(target_group) THEN
+    RAISE EXCEPTION 'Only group admins can change roles';
+  END IF;
+
+  UPDATE public.group_members SET role = new_role WHERE group_id = target_group AND user_id = member;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+  PERFORM public.ensure_group_admin(target_group);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 1:1 conversations only; groups are listed separately
+CREATE OR REPLACE FUNCTION public.get_conversations()
+RETURNS TABLE (friend_id UUID, last_message JSONB, unread_count BIGINT) AS $$
+  WITH mine AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END AS partner_id
+    FROM public.messages m
+    WHERE (m.sender_id = auth.uid() OR m.receiver_id = auth.uid()) AND m.group_id IS NULL
+  ),
+  latest AS (
+    SELECT DISTINCT ON (partner_id) partner_id, to_jsonb(mine) - 'partner_id' AS message
+    FROM mine
+    ORDER BY partner_id, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT partner_id, count(*) AS n
+    FROM mine
+    WHERE receiver_id = auth.uid() AND read_at IS NULL
+    GROUP BY partner_id
+  )
+  SELECT l.partner_id, l.message, COALESCE(u.n, 0)
+  FROM latest l
+  LEFT JOIN unread u USING (partner_id);
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Revisions are matched on the conversation, which for a group is group_id
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(target UUID)
+RETURNS VOID AS $$
+DECLARE
+  window_seconds INTEGER;
+  msg public.messages%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO msg FROM public.messages WHERE id = target FOR UPDATE;
+  IF NOT FOUND OR msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the sender can delete this message';
+  END IF;
+  IF msg.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT value::INTEGER INTO window_seconds FROM public.app_settings WHERE key = 'message_delete_window_seconds';
+  IF msg.created_at < now() - make_interval(secs => COALESCE(window_seconds, 0)) THEN
+    RAISE EXCEPTION 'This message is too old to delete for everyone';
+  END IF;
+
+  UPDATE public.messages
+  SET ciphertext = '', encrypted_key = '{}', iv = '', signature = NULL, deleted_at = now()
+  WHERE id = target;
+
+  -- Only the sender's own edits of target, which are newer than it and so
+  -- within the window too
+  DELETE FROM public.messages
+  WHERE revises = target
+    AND sender_id = auth.uid()
+    AND receiver_id IS NOT DISTINCT FROM msg.receiver_id
+    AND group_id IS NOT DISTINCT FROM msg.group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,88 @@
+-- Group epochs. Every join or leave bumps the group's epoch, and a group
+-- message must carry the current one. Content keys are sealed per device for
+-- the members the sender knows about, so refusing stale epochs is what stops
+-- a message being sealed for someone who has since been removed (or missing
+-- someone just added). Membership changes are also logged as group events.
+ALTER TABLE public.groups ADD COLUMN epoch INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.messages ADD COLUMN epoch INTEGER;
+
+CREATE TABLE public.group_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  target_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('created', 'added', 'removed', 'left', 'promoted', 'demoted')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX group_events_group_id_idx ON public.group_events (group_id, created_at);
+
+ALTER TABLE public.group_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their groups' events"
+  ON public.group_events FOR SELECT
+  USING (public.is_group_member(group_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_events;
+
+-- Bump the epoch and log the change. The actor is whoever called the
+-- membership function; nothing is logged when the group itself is being
+-- deleted.
+CREATE OR REPLACE FUNCTION public.on_group_membership_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_group UUID := COALESCE(NEW.group_id, OLD.group_id);
+  event_action TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.groups WHERE id = target_group) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    event_action := CASE WHEN NEW.user_id = auth.uid() THEN 'created' ELSE 'added' END;
+  ELSIF TG_OP = 'DELETE' THEN
+    event_action := CASE WHEN OLD.user_id = auth.uid() THEN 'left' ELSE 'removed' END;
+  ELSIF NEW.role = OLD.role THEN
+    RETURN NULL;
+  ELSE
+    event_action := CASE WHEN NEW.role = 'admin' THEN 'promoted' ELSE 'demoted' END;
+  END IF;
+
+  -- Roles don't change who can read, so only joins and leaves rekey
+  IF TG_OP <> 'UPDATE' THEN
+    UPDATE public.groups SET epoch = epoch + 1 WHERE id = target_group;
+  END IF;
+
+  INSERT INTO public.group_events (group_id, actor_id, target_id, action)
+  VALUES (target_group, auth.uid(), COALESCE(NEW.user_id, OLD.user_id), event_action);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER group_membership_changed
+  AFTER INSERT OR DELETE OR UPDATE OF role ON public.group_members
+  FOR EACH ROW EXECUTE FUNCTION public.on_group_membership_change();
+
+-- Refuse group messages sealed for an outdated member list. Locking the group
+-- row orders this against concurrent membership changes. 40001 tells the
+-- client to refresh the member list and seal the message again.
+CREATE OR REPLACE FUNCTION public.check_group_epoch()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_epoch INTEGER;
+BEGIN
+  IF NEW.group_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT epoch INTO current_epoch FROM public.groups WHERE id = NEW.group_id FOR SHARE;
+  IF NEW.epoch IS DISTINCT FROM current_epoch THEN
+    RAISE EXCEPTION 'Group membership has changed' USING ERRCODE = '40001';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_group_message_epoch
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_group_epoch();
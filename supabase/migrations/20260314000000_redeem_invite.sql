@@ -0,0 +1,77 @@
+-- Invite redemption happens server-side in one transaction. Before, redeeming
+-- took three client calls and relied on policies that let any user read every
+-- unused token and rewrite it. Tokens are now only visible to their creator;
+-- invitees go through the functions below.
+DROP POLICY "Authenticated users can read tokens to redeem" ON public.invite_tokens;
+DROP POLICY "Authenticated users can update tokens to redeem" ON public.invite_tokens;
+
+-- The redeemable token, or an exception saying why it can't be used
+CREATE OR REPLACE FUNCTION public.check_invite(invite_token UUID, for_update BOOLEAN DEFAULT false)
+RETURNS public.invite_tokens AS $$
+DECLARE
+  invite public.invite_tokens%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF for_update THEN
+    SELECT * INTO invite FROM public.invite_tokens WHERE token = invite_token FOR UPDATE;
+  ELSE
+    SELECT * INTO invite FROM public.invite_tokens WHERE token = invite_token;
+  END IF;
+
+  IF NOT FOUND OR invite.used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite link is invalid or has already been used.';
+  END IF;
+  IF invite.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t use your own invite link.';
+  END IF;
+  IF invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite link has expired.';
+  END IF;
+  RETURN invite;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_invite(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Who an invite is from, so the invitee can decide whether to accept
+CREATE OR REPLACE FUNCTION public.preview_invite(invite_token UUID)
+RETURNS TABLE (inviter_id UUID, inviter_username TEXT) AS $$
+DECLARE
+  invite public.invite_tokens%ROWTYPE;
+BEGIN
+  invite := public.check_invite(invite_token);
+  RETURN QUERY
+  SELECT p.user_id, p.username FROM public.profiles p WHERE p.user_id = invite.created_by;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Use up the token and make the caller and its creator friends. Returns the
+-- creator's id.
+CREATE OR REPLACE FUNCTION public.redeem_invite(invite_token UUID)
+RETURNS UUID AS $$
+DECLARE
+  invite public.invite_tokens%ROWTYPE;
+BEGIN
+  invite := public.check_invite(invite_token, true);
+
+  UPDATE public.invite_tokens
+  SET used_by = auth.uid(), used_at = now()
+  WHERE token = invite_token;
+
+  -- An earlier request between the two, in either direction, is accepted
+  -- rather than duplicated
+  UPDATE public.friend_requests
+  SET status = 'accepted'
+  WHERE (sender_id = invite.created_by AND receiver_id = auth.uid())
+     OR (sender_id = auth.uid() AND receiver_id = invite.created_by);
+  IF NOT FOUND THEN
+    INSERT INTO public.friend_requests (sender_id, receiver_id, status)
+    VALUES (invite.created_by, auth.uid(), 'accepted');
+  END IF;
+
+  RETURN invite.created_by;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
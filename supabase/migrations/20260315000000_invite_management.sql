@@ -0,0 +1,86 @@
+-- Invite management. A token can now be used up to max_uses times (NULL for
+-- no limit), each redemption is recorded so the creator can see who joined
+-- through it, and creators can revoke their tokens. used_by/used_at now hold
+-- the most recent redemption.
+ALTER TABLE public.invite_tokens ADD COLUMN max_uses INTEGER DEFAULT 1 CHECK (max_uses IS NULL OR max_uses > 0);
+ALTER TABLE public.invite_tokens ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.invite_tokens SET use_count = 1 WHERE used_at IS NOT NULL;
+
+CREATE TABLE public.invite_redemptions (
+  token UUID NOT NULL REFERENCES public.invite_tokens(token) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  redeemed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (token, user_id)
+);
+
+INSERT INTO public.invite_redemptions (token, user_id, redeemed_at)
+SELECT token, used_by, used_at FROM public.invite_tokens WHERE used_by IS NOT NULL AND used_at IS NOT NULL;
+
+ALTER TABLE public.invite_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see who redeemed their invite tokens"
+  ON public.invite_redemptions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.invite_tokens t WHERE t.token = invite_redemptions.token AND t.created_by = auth.uid()));
+
+CREATE POLICY "Users can revoke own invite tokens"
+  ON public.invite_tokens FOR DELETE
+  USING (auth.uid() = created_by);
+
+CREATE OR REPLACE FUNCTION public.check_invite(invite_token UUID, for_update BOOLEAN DEFAULT false)
+RETURNS public.invite_tokens AS $$
+DECLARE
+  invite public.invite_tokens%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF for_update THEN
+    SELECT * INTO invite FROM public.invite_tokens WHERE token = invite_token FOR UPDATE;
+  ELSE
+    SELECT * INTO invite FROM public.invite_tokens WHERE token = invite_token;
+  END IF;
+
+  IF NOT FOUND OR (invite.max_uses IS NOT NULL AND invite.use_count >= invite.max_uses) THEN
+    RAISE EXCEPTION 'This invite link is invalid or has already been used.';
+  END IF;
+  IF invite.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t use your own invite link.';
+  END IF;
+  IF invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite link has expired.';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.invite_redemptions WHERE token = invite_token AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You have already used this invite link.';
+  END IF;
+  RETURN invite;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.redeem_invite(invite_token UUID)
+RETURNS UUID AS $$
+DECLARE
+  invite public.invite_tokens%ROWTYPE;
+BEGIN
+  invite := public.check_invite(invite_token, true);
+
+  UPDATE public.invite_tokens
+  SET use_count = use_count + 1, used_by = auth.uid(), used_at = now()
+  WHERE token = invite_token;
+  INSERT INTO public.invite_redemptions (token, user_id) VALUES (invite_token, auth.uid());
+
+  -- An earlier request between the two, in either direction, is accepted
+  -- rather than duplicated
+  UPDATE public.friend_requests
+  SET status = 'accepted'
+  WHERE (sender_id = invite.created_by AND receiver_id = auth.uid())
+     OR (sender_id = auth.uid() AND receiver_id = invite.created_by);
+  IF NOT FOUND THEN
+    INSERT INTO public.friend_requests (sender_id, receiver_id, status)
+    VALUES (invite.created_by, auth.uid(), 'accepted');
+  END IF;
+
+  RETURN invite.created_by;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,48 @@
+-- Read receipts and unread counts. messages never had an UPDATE policy, so
+-- clients marking rows read were silently refused; marking read now goes
+-- through a function that can only set read_at on the caller's own incoming
+-- rows. Rows that aren't new messages to the reader (reactions, edits, timer
+-- changes) are flagged silent by the sender and never count as unread.
+ALTER TABLE public.messages ADD COLUMN silent BOOLEAN NOT NULL DEFAULT false;
+
+-- Mark messages from sender read, or only the given ids among them
+CREATE OR REPLACE FUNCTION public.mark_messages_read(sender UUID, message_ids UUID[] DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.messages
+  SET read_at = now()
+  WHERE receiver_id = auth.uid()
+    AND sender_id = sender
+    AND read_at IS NULL
+    AND (message_ids IS NULL OR id = ANY (message_ids));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_conversations()
+RETURNS TABLE (friend_id UUID, last_message JSONB, unread_count BIGINT) AS $$
+  WITH mine AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END AS partner_id
+    FROM public.messages m
+    WHERE (m.sender_id = auth.uid() OR m.receiver_id = auth.uid()) AND m.group_id IS NULL
+  ),
+  latest AS (
+    SELECT DISTINCT ON (partner_id) partner_id, to_jsonb(mine) - 'partner_id' AS message
+    FROM mine
+    ORDER BY partner_id, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT partner_id, count(*) AS n
+    FROM mine
+    WHERE receiver_id = auth.uid() AND read_at IS NULL AND NOT silent AND deleted_at IS NULL
+    GROUP BY partner_id
+  )
+  SELECT l.partner_id, l.message, COALESCE(u.n, 0)
+  FROM latest l
+  LEFT JOIN unread u USING (partner_id);
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,6 @@
+-- Key backups wrapped with the account password are no longer accepted: the
+-- server sees that password at every sign-in, so it could unwrap them. New or
+-- updated backups must use a separate recovery passphrase. Existing password
+-- backups stay restorable until their owner replaces or deletes them.
+ALTER TABLE public.key_backups
+  ADD CONSTRAINT key_backups_recovery_only CHECK (kind = 'recovery') NOT VALID;
@@ -0,0 +1,35 @@
+-- Presence moves from one channel everyone could join to a private Realtime
+-- channel per friendship, named presence:<user id>:<user id> with the ids in
+-- sorted order. Realtime authorizes private channels against these policies
+-- on realtime.messages, so only the two friends can join one, and only while
+-- the joining user shares their presence.
+CREATE OR REPLACE FUNCTION public.can_join_presence_topic(topic TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  parts TEXT[] := string_to_array(topic, ':');
+  a UUID;
+  b UUID;
+BEGIN
+  IF array_length(parts, 1) IS DISTINCT FROM 3 OR parts[1] <> 'presence' THEN
+    RETURN false;
+  END IF;
+  BEGIN
+    a := parts[2]::UUID;
+    b := parts[3]::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN false;
+  END;
+
+  RETURN auth.uid() IN (a, b)
+    AND public.are_friends(a, b)
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND show_presence);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Friends can receive each other's presence"
+  ON realtime.messages FOR SELECT TO authenticated
+  USING (realtime.messages.extension = 'presence' AND public.can_join_presence_topic(realtime.topic()));
+
+CREATE POLICY "Friends can share presence with each other"
+  ON realtime.messages FOR INSERT TO authenticated
+  WITH CHECK (realtime.messages.extension = 'presence' AND public.can_join_presence_topic(realtime.topic()));